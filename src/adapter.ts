@@ -0,0 +1,84 @@
+import type BN from "bn.js";
+import type Decimal from "decimal.js";
+
+import type { ClmmState } from "./engine.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type Dex = "orca" | "raydium" | "meteora";
+
+/** Pool parameters + state, read once when the adapter loads the pool. */
+export type PoolInfo = {
+  dex: Dex;
+  pool: string;
+  programId: string;
+  tickSpacing: number;        // bin step for DLMM
+  feePpm: number;             // taker fee, one leg (base fee for DLMM)
+  variableFeePpm?: number;    // DLMM: variable fee on top of feePpm at load time
+  dynamicFee?: boolean;       // fee varies with size: take it from each quote's feeAmount
+  protocolFeePpm: number;
+  liquidity: BN;              // u128
+  sqrtPriceX64: BN;           // u128, Q64.64
+  tickCurrent: number;        // active bin id for DLMM
+  mintA: string; decA: number;
+  mintB: string; decB: number;
+  /** Independent [decA, decB] readings by source (mint account, pool account, API), checked by units.ts */
+  decimalsBy?: Record<string, [number, number]>;
+};
+
+/** An account whose changes move the quotes (subscribe.ts) */
+export type WatchedAccount = {
+  pubkey: string;
+  kind: "pool" | "tick_array" | "bin_array";
+};
+
+/** One SDK quote in raw token units. `feeAmount` is charged in the input mint. */
+export type SwapQuote = {
+  amountIn: BN;
+  amountOut: BN;
+  feeAmount: BN;
+  /** Start ticks of the tick arrays the swap runs through, when the venue reports them */
+  tickArrays?: number[];
+};
+
+/**
+ * Everything the probe needs from a venue. Sizing, units, console output and CSV
+ * live in probe.ts; an adapter only loads the pool and returns raw quotes.
+ */
+export interface ProbeAdapter {
+  readonly dex: Dex;
+  /** Most tick arrays one swap may use (Whirlpool: 3); unset = as many as are initialized */
+  readonly maxSwapArrays?: number;
+  /** Fetch pool state, tick arrays and mint decimals. Must be called first. */
+  load(): Promise<PoolInfo>;
+  /** Mid price as tokenB per tokenA (decimals-adjusted). */
+  midPrice(): Decimal;
+  /** Exact-in: spend `amountIn` of `inputMint`, zero slippage tolerance. */
+  quoteExactIn(inputMint: string, amountIn: BN): Promise<SwapQuote>;
+  /** Exact-out: receive `amountOut` of `outputMint`, zero slippage tolerance. */
+  quoteExactOut(outputMint: string, amountOut: BN): Promise<SwapQuote>;
+  /**
+   * Optional: tick-level state decoded from raw accounts (pool, fee config and
+   * ±n tick arrays around the current one), for the native engine (engine.ts)
+   * and the liquidity depth profile (depth.ts).
+   */
+  clmmState?(arraysEachSide: number): Promise<ClmmState>;
+  /**
+   * Optional: the pool account and the tick (bin) arrays around the loaded price,
+   * for --subscribe. Call after load(); the set moves with the price.
+   */
+  watchAccounts?(arraysEachSide: number): WatchedAccount[];
+}
+
+/* ---------------------------- Quote failures ------------------------------ */
+// Whirlpool SDK error codes of a swap that runs out of tick arrays
+const WHIRLPOOL_EXHAUSTED = new Set(["TickArrayCrossingAboveMax", "TickArrayIndexNotInitialized", "TickArraySequenceInvalid"]);
+// The same failure as thrown by the other SDKs, the adapters and the native engine (engine.ts)
+const EXHAUSTED_MESSAGE =
+  /insufficient liquidity|liquidity ?insufficient|filled partially|past loaded tick arrays|current tick is not loaded|exceeds available token/i;
+
+/** True when a quote failed because the pool (its loaded tick or bin arrays) cannot fill the amount */
+export function isLiquidityError(e: unknown): boolean {
+  const code = (e as { errorCode?: unknown } | null)?.errorCode;
+  if (typeof code === "string" && WHIRLPOOL_EXHAUSTED.has(code)) return true;
+  return e instanceof Error && EXHAUSTED_MESSAGE.test(e.message);
+}
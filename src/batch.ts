@@ -0,0 +1,109 @@
+/**
+ * `clamm batch` config: many pools, one process.
+ *
+ *   rpc: https://my-rpc.example          # optional, --rpc wins; a list (or comma list) adds failovers
+ *   out: data/nightly.csv                # optional, --out wins (.csv, .jsonl or .db; `csv:` also accepted)
+ *   defaults: { sizeUnit: usd, sizes: [100, 1000, 10000] }
+ *   pools:
+ *     - { dex: orca, pool: Czfq3x..., engine: diff }
+ *     - { dex: raydium, pool: <SOL/RAY>, quoteMint: SOL, usdMode: true }
+ *
+ * Entries use the same keys as the `clamm probe` flags (JSON or YAML).
+ * Keys that only make sense once per process (rpc, out, ...) are batch-level.
+ */
+
+import fs from "fs";
+import path from "path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+import type { Dex } from "./adapter.js";
+
+/* -------------------------------- Types ---------------------------------- */
+/** One probe: flag name -> value, already merged over `defaults` */
+export type BatchEntry = Record<string, unknown> & { dex: Dex; pool: string };
+
+export type BatchConfig = {
+  rpc?: string;
+  out?: string;
+  pools: BatchEntry[];
+};
+
+/** The file as parsed, before any check */
+type RawBatchConfig = { rpc?: unknown; out?: unknown; csv?: unknown; defaults?: unknown; pools?: unknown };
+
+/** Minimal view of a yargs option spec, enough to validate config values */
+type OptionSpec = { type: string; choices?: readonly string[] };
+
+/** Probe flags that belong to the batch, not to an entry (inverse mode rows would not fit the batch CSV) */
+export const BATCH_LEVEL_KEYS: readonly string[] = [
+  "rpc", "out", "csv", "quiet", "snapshot", "fromSnapshot", "targetImpactBps", "targetBasis", "tokenList", "tokenCache",
+  "rpcRetries", "rpcTimeoutMs", "rpcRps", "manifest",
+];
+
+/* ------------------------------- Parsing ---------------------------------- */
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** Size lists may be written as YAML/JSON arrays; the probe flag is a comma list */
+function normalizeValue(key: string, v: unknown): unknown {
+  return key === "sizes" && Array.isArray(v) ? v.join(",") : v;
+}
+
+function validateEntry(where: string, entry: Record<string, unknown>, specs: Record<string, OptionSpec>): void {
+  for (const [key, v] of Object.entries(entry)) {
+    const spec = specs[key];
+    if (!spec || BATCH_LEVEL_KEYS.includes(key)) throw new Error(`${where}: unknown or batch-level key "${key}"`);
+    if (typeof v !== spec.type) throw new Error(`${where}: "${key}" must be a ${spec.type}, got ${JSON.stringify(v)}`);
+    if (spec.choices && !spec.choices.includes(v as string)) {
+      throw new Error(`${where}: "${key}" must be one of ${spec.choices.join("|")}, got "${v}"`);
+    }
+  }
+}
+
+/**
+ * Read and validate a batch config (.json, .yaml or .yml). `specs` are the probe
+ * option specs; every entry must end up with a dex and a pool.
+ */
+export function readBatchConfig(file: string, specs: Record<string, OptionSpec>): BatchConfig {
+  const text = fs.readFileSync(file, "utf8");
+  const ext = path.extname(file).toLowerCase();
+  const parsed: unknown = ext === ".yaml" || ext === ".yml" ? parseYaml(text) : JSON.parse(text);
+  const raw: RawBatchConfig = isRecord(parsed) ? parsed : {};
+  if (!Array.isArray(raw.pools) || raw.pools.length === 0) {
+    throw new Error(`${file}: expected a non-empty "pools" list`);
+  }
+  const rawDefaults = raw.defaults ?? {};
+  if (!isRecord(rawDefaults)) throw new Error(`${file}: "defaults" must be a mapping`);
+
+  const norm = (o: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(o).map(([k, v]) => [k, normalizeValue(k, v)]));
+  const defaults = norm(rawDefaults);
+  validateEntry(`${file} defaults`, defaults, specs);
+
+  const pools = raw.pools.map((e: unknown, i: number) => {
+    const where = `${file} pools[${i}]`;
+    if (!isRecord(e)) throw new Error(`${where}: expected a mapping, got ${JSON.stringify(e)}`);
+    const entry = { ...defaults, ...norm(e) };
+    validateEntry(where, entry, specs);
+    if (!entry.dex || !entry.pool) throw new Error(`${where}: "dex" and "pool" are required`);
+    return entry as BatchEntry;
+  });
+
+  const rpc = Array.isArray(raw.rpc) ? raw.rpc.join(",") : raw.rpc;
+  const out = raw.out ?? raw.csv;
+  if (rpc !== undefined && typeof rpc !== "string") throw new Error(`${file}: "rpc" must be a URL or a list of URLs`);
+  if (out !== undefined && typeof out !== "string") throw new Error(`${file}: "out" must be a path`);
+  return { rpc, out, pools };
+}
+
+/** Write a config `clamm batch` reads back (.json, else YAML); e.g. the pools `clamm discover` found */
+export function writeBatchConfig(file: string, cfg: { defaults?: Record<string, unknown>; pools: BatchEntry[] }): void {
+  const ext = path.extname(file).toLowerCase();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, ext === ".json" ? JSON.stringify(cfg, null, 2) + "\n" : stringifyYaml(cfg));
+}
+
+/** Run id shared by every row of one invocation: 20240101T120000Z-3fa9 */
+export function mkRunId(now: Date = new Date()): string {
+  const ts = now.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  return `${ts}-${Math.random().toString(16).slice(2, 6)}`;
+}
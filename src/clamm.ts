@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { hideBin } from "yargs/helpers";
+import { runCli } from "./cli.js";
+
+try {
+  await runCli(hideBin(process.argv));
+} catch (e: unknown) {
+  console.error(`Fatal: ${e instanceof Error ? e.message : String(e)}`);
+  process.exit(1);
+}
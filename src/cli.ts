@@ -0,0 +1,1123 @@
+/**
+ * `clamm` command line: one entry point for every venue.
+ *
+ *   clamm probe --dex orca|raydium|meteora --pool <pubkey> [--sizes ..|--range a:b:s] [--out out.csv|.jsonl|.db]
+ *   clamm probe --dex orca --pool <pubkey> --snapshot snap.json   (capture every account read)
+ *   clamm probe --fromSnapshot snap.json                           (replay, no RPC)
+ *   clamm probe --dex raydium --pool <pubkey> --engine diff        (native engine vs SDK)
+ *   clamm probe --dex raydium --pool <SOL/RAY> --usdMode --oraclePool <pubkey> --oracleDex orca
+ *   clamm probe --dex orca --pool <pubkey> --targetImpactBps 5,10,25  (max size under each target)
+ *   clamm batch config/pools.yaml [--out out.csv]                 (many pools, one process)
+ *   clamm batch config/pools.yaml --out data/live.db --watch --intervalSec 30   (long-running)
+ *   clamm probe --dex orca --pool <pubkey> --subscribe --out live.csv  (re-quote on account changes)
+ *   clamm replay-ws updates.jsonl --port 8900                      (mock PubSub for --subscribe replays)
+ *   clamm batch config/pools.yaml --watch --metricsPort 9464         (Prometheus /metrics)
+ *   clamm probe --dex orca --pool <pubkey> --rpc https://a,https://b --rpcRps 5   (failover, rate limit)
+ *   clamm compare --mintA SOL --mintB USDC --pools orca:<pk>,raydium:<pk>   (best execution per size)
+ *   clamm depth --dex orca --pool <pubkey> --out depth.csv            (liquidity within ±bps)
+ *   clamm discover --mintA SOL --mintB USDC --configOut config/sol_usdc.yaml   (every pool of a pair)
+ *   clamm split --mintA SOL --mintB USDC --pools orca:<pk>,raydium:<pk> --sizes 100000  (order splitting)
+ *   clamm merge data/*.csv --out reports/rollup.csv               (daily/hourly rollups of probe CSVs)
+ *   clamm plot data/batch.csv --since 24h --html --png              (charts + HTML report)
+ */
+
+import fs from "fs";
+import path from "path";
+import yargs from "yargs";
+import { Connection } from "@solana/web3.js";
+import Decimal from "decimal.js";
+
+import type { Dex, ProbeAdapter } from "./adapter.js";
+import { mkMeteoraAdapter } from "./meteora_adapter.js";
+import { mkOrcaAdapter } from "./orca_adapter.js";
+import { mkRaydiumAdapter } from "./raydium_adapter.js";
+import { ENGINE_ARRAYS_EACH_SIDE, mkEngineAdapter } from "./engine.js";
+import { mkRunId, readBatchConfig, writeBatchConfig } from "./batch.js";
+import { mkMetrics, type Metrics } from "./metrics.js";
+import {
+  compareCsvHeader,
+  compareCsvRow,
+  comparePools,
+  parsePoolList,
+  poolLabel,
+  printCompare,
+  type ComparedPool,
+  type PoolRef,
+} from "./compare.js";
+import {
+  DEPTH_ARRAYS_EACH_SIDE,
+  DEPTH_BANDS_BPS,
+  depthBands,
+  depthBandsCsvHeader,
+  depthProfileCsvHeader,
+  liquidityProfile,
+  printProfile,
+  quotePerBaseAt,
+} from "./depth.js";
+import {
+  DISCOVER_DEXES,
+  ORCA_CONFIGS,
+  ORCA_TICK_SPACINGS,
+  RAYDIUM_CLMM_PROGRAM,
+  discoverCsvHeader,
+  discoverCsvRow,
+  discoverOrca,
+  discoverRaydium,
+  poolsArg,
+  printDiscovered,
+  valuePools,
+  type DiscoveredPool,
+} from "./discover.js";
+import {
+  SLOT_CHECK_MODES,
+  csvHeader,
+  pickQuoteMint,
+  runProbe,
+  usdRates,
+  type EngineMode,
+  type ProbeResult,
+  type PriceUnit,
+  type SizeUnit,
+  type SlotCheckMode,
+} from "./probe.js";
+import { UNIT_CHECK_MODES, type UnitCheckMode } from "./units.js";
+import {
+  ROLLUP_PERIODS,
+  dedupe,
+  emptyReadStats,
+  mergedCsvHeader,
+  mergedCsvRow,
+  printRollup,
+  readRoundtrip,
+  rollup,
+  rollupCsvHeader,
+  rollupCsvRow,
+  type MergedRow,
+  type RollupPeriod,
+} from "./merge.js";
+import { filterRows, parseTime, writePlots } from "./plot.js";
+import {
+  DEFAULT_SOL_USD_SOURCE,
+  PYTH_MAX_AGE_SEC,
+  PYTH_MAX_CONF_BPS,
+  mkPriceSource,
+  parsePriceSources,
+  priceSourceSpecs,
+  type PriceSource,
+  type PriceSourceSpec,
+} from "./price_sources.js";
+import { openSink, type OutputSink } from "./sink.js";
+import { TARGET_BASES, targetCsvHeader, type TargetBasis } from "./solver.js";
+import { SPLIT_STEPS, optimizeSplit, printSplit, splitCsvHeader, splitCsvRows, type SplitSide, type SplitVenue } from "./split.js";
+import { DEFAULT_MANIFEST, appendManifest, mkManifest } from "./manifest.js";
+import { RpcConnection, formatRpcStats, parseEndpoints, slotSourceOf, type RpcOptions } from "./rpc.js";
+import { ReplayConnection, RecordingConnection, readSnapshot, writeSnapshot } from "./snapshot.js";
+import { SUBSCRIBE_ARRAYS_EACH_SIDE, runSubscription, type SubscribeOptions, type Trigger } from "./subscribe.js";
+import { readUpdates, startMockWs } from "./mock_ws.js";
+import { onShutdown, runWatch, type WatchOptions } from "./watch.js";
+import { DEFAULT_TOKEN_CACHE, DEFAULT_TOKEN_LIST, tokensFor, type TokenResolver } from "./tokens.js";
+import { USDC, parseSizes } from "./utils.js";
+
+export const DEXES: readonly Dex[] = ["orca", "raydium", "meteora"];
+
+/** Adapter factory: the only place that knows which venues exist. */
+export function mkAdapter(dex: Dex, conn: Connection, pool: string): ProbeAdapter {
+  switch (dex) {
+    case "orca": return mkOrcaAdapter(conn, pool);
+    case "raydium": return mkRaydiumAdapter(conn, pool);
+    case "meteora": return mkMeteoraAdapter(conn, pool);
+  }
+}
+
+/* ------------------------------- Options ---------------------------------- */
+/** Token metadata sources (tokens.ts), for every command that prints or picks by symbol */
+export const tokenOptions = {
+  tokenList: {
+    type: "string",
+    desc: `Token list JSON ({"tokens":[{address,symbol,name,decimals,tags}]}): symbols, and tags usd / btc for QUOTE and USD picks. Default: ${DEFAULT_TOKEN_LIST} if present`,
+  },
+  tokenCache: {
+    type: "string",
+    default: DEFAULT_TOKEN_CACHE,
+    desc: "Symbols and names read on chain (Token-2022 / Metaplex metadata), reused for a week; '' disables",
+  },
+} as const;
+
+/** RPC transport (rpc.ts), for every command that reads the chain */
+export const rpcOptions = {
+  rpcRetries: { type: "number", default: 4, desc: "Retries of a request on 429 / 5xx / timeout / network error, with exponential backoff; each fails over to the next --rpc endpoint" },
+  rpcTimeoutMs: { type: "number", default: 30_000, desc: "Per-attempt RPC request timeout (ms)" },
+  rpcRps: { type: "number", default: 10, desc: "RPC requests per second across endpoints; 0 = unlimited" },
+} as const;
+
+/** Run provenance (manifest.ts), for every command whose rows carry a run_id from the chain */
+export const manifestOptions = {
+  manifest: {
+    type: "string",
+    default: DEFAULT_MANIFEST,
+    desc: "Append one JSON line per run_id: command line, SDK versions, RPC hosts (no paths or keys), RPC stats; '' disables",
+  },
+} as const;
+
+export const probeOptions = {
+  dex: { type: "string", choices: DEXES, desc: "Venue of --pool (required unless --fromSnapshot)" },
+  rpc: { type: "string", default: "https://api.mainnet-beta.solana.com", desc: "RPC endpoint, or a comma list: the first is primary, the rest failovers" },
+  pool: { type: "string", desc: "Target pool pubkey, e.g. SOL/BTC (required unless --fromSnapshot)" },
+  sizes: { type: "string", default: "100,1000,5000,10000,100000,1000000" },
+  range: { type: "string", desc: "A:B:S step (interpreted in --sizeUnit; overrides --sizes)" },
+  sleepMs: { type: "number", default: 0, desc: "sleep between quotes (ms)" },
+  usdMode: {
+    type: "boolean",
+    default: false,
+    desc: "If set, default to USD sizing and USD prices (equivalent to --sizeUnit usd and --priceUnit usd), unless explicitly overridden. Also enables live SOL/USD pricing when SOL is the quote.",
+  },
+  sizeUnit: {
+    type: "string",
+    choices: ["usd", "quote"] as const,
+    desc: "How to size trades: 'usd' or 'quote' (e.g., BTC). Default: 'usd' if USDC in pool, else 'quote'.",
+  },
+  priceUnit: {
+    type: "string",
+    choices: ["usd", "quote"] as const,
+    desc: "How to report prices: 'usd' (USD per BASE) or 'quote' (QUOTE per BASE, e.g., BTC per SOL).",
+  },
+  quoteMint: {
+    type: "string",
+    desc:
+      "Preferred QUOTE mint or symbol (e.g., USDC, BTC, SOL). If omitted, use usdMint/USDC if present; else a USD stablecoin, else BTC (token list tags usd / btc); else token B.",
+  },
+  oraclePool: {
+    type: "string",
+    desc:
+      "Pool with USD vs QUOTE or USD vs BASE, on --oracleDex: shorthand for a first --usdSources entry pool:<oracleDex>:<pubkey>.",
+  },
+  oracleDex: {
+    type: "string",
+    choices: DEXES,
+    desc: "Venue of --oraclePool. Defaults to --dex (e.g. price a Raydium SOL/RAY pool off an Orca SOL/USDC pool).",
+  },
+  usdMint: {
+    type: "string",
+    default: USDC as string,
+    desc: "USD stable mint or symbol in the oracle pool. Defaults to USDC. Change if your oracle uses a different USD token.",
+  },
+  usdSources: {
+    type: "string",
+    desc:
+      "USD price sources, needed if --sizeUnit=usd and QUOTE≠USDC (or your usdMint). Comma list of pool:<dex>:<pubkey>, " +
+      "chain:<dex>:<pubkey>+<dex>:<pubkey>[+...] (hops towards USD, e.g. mSOL/SOL+SOL/USDC) or pyth:<mint>:<price account>. " +
+      "The first that answers converts; the others are read for usd_deviation_bps",
+  },
+  solUsdSource: {
+    type: "string",
+    default: DEFAULT_SOL_USD_SOURCE,
+    desc: "With --usdMode, SOL as the QUOTE and no --usdSources / --oraclePool: the SOL/USD source (same syntax); '' disables",
+  },
+  pythMaxAgeSec: { type: "number", default: PYTH_MAX_AGE_SEC, desc: "Refuse a Pyth price published longer ago than this (snapshot replays: at capture time); 0 disables" },
+  pythMaxConfBps: { type: "number", default: PYTH_MAX_CONF_BPS, desc: "Refuse a Pyth price whose confidence interval is wider than this (bps of price); 0 disables" },
+  maxUsdDeviationBps: { type: "number", default: 50, desc: "Warn when USD price sources are further apart than this (bps of USD per QUOTE)" },
+  depthDump: {
+    type: "number",
+    desc: "Tick arrays to inspect on each side of the active one. Prints absolute liquidity per tick range around the price (see also `clamm depth`)."
+  },
+  engine: {
+    type: "string",
+    choices: ["sdk", "native", "diff"] as const,
+    default: "sdk",
+    desc: "Quote with the venue SDK, the native bigint engine, or both (diff flags >1 raw unit disagreements)",
+  },
+  unitCheck: {
+    type: "string",
+    choices: UNIT_CHECK_MODES,
+    default: "warn",
+    desc: "Unit mismatch (decimals disagree, or exec px on the wrong side of mid): warn and flag the row, diagnose (also print raw->UI amounts per leg), or strict (fail the row)",
+  },
+  maxSlotSpread: {
+    type: "number",
+    default: 20,
+    desc: "Slots the pool and oracle reads of one probe may span (each read is pinned at or after the first with minContextSlot)",
+  },
+  slotCheck: {
+    type: "string",
+    choices: SLOT_CHECK_MODES,
+    default: "warn",
+    desc: "Reads spanning more than --maxSlotSpread: warn and flag the rows (slot_check), or strict (fail the rows)",
+  },
+  targetImpactBps: {
+    type: "string",
+    desc: "Inverse mode, e.g. 5,10,25: instead of the size ladder, find the largest notional under each bps target for BUY, SELL and the roundtrip (own CSV record type)",
+  },
+  targetBasis: {
+    type: "string",
+    choices: TARGET_BASES,
+    default: "impact",
+    desc: "What --targetImpactBps bounds: impact (excluding fees) or total (including fees, like roundtrip_bps)",
+  },
+  engineArrays: { type: "number", default: ENGINE_ARRAYS_EACH_SIDE, desc: "Tick arrays loaded each side of the current one for the native engine" },
+  coverageArrays: {
+    type: "number",
+    default: ENGINE_ARRAYS_EACH_SIDE,
+    desc: "Tick arrays read each side of the current one to report arrays and ticks each quote crosses, what stops a failed size and the max size per swap (CLMM venues); 0 disables",
+  },
+  snapshot: { type: "string", desc: "Write every account the run reads (versioned JSON, tagged with slot) to this file" },
+  fromSnapshot: { type: "string", conflicts: "snapshot", desc: "Replay a --snapshot file: same quotes, no RPC" },
+  out: {
+    type: "string",
+    alias: "csv",
+    desc: "Append rows here; the extension picks the sink: .csv, .jsonl/.ndjson or .db/.sqlite/.sqlite3 (SQLite)",
+  },
+  ...tokenOptions,
+  ...rpcOptions,
+  ...manifestOptions,
+  quiet: { type: "boolean", default: false },
+} as const;
+
+/** Long-running mode for probe and batch (watch.ts); not per batch entry */
+export const watchOptions = {
+  watch: {
+    type: "boolean",
+    default: false,
+    conflicts: ["snapshot", "fromSnapshot"],
+    desc: "Keep running: re-probe every --intervalSec on the same connection, SDK clients and mint cache; Ctrl-C stops cleanly",
+  },
+  intervalSec: { type: "number", default: 60, desc: "Watch: seconds between cycle starts" },
+  jitterPct: { type: "number", default: 10, desc: "Watch: random ± spread of each wait, % of the interval" },
+  maxBackoffSec: { type: "number", default: 600, desc: "Watch: cap of the exponential backoff after failed cycles" },
+} as const;
+
+/** Event-driven mode for probe (subscribe.ts) */
+export const subscribeOptions = {
+  subscribe: {
+    type: "boolean",
+    default: false,
+    conflicts: ["watch", "targetImpactBps"],
+    desc: "Keep running: re-quote whenever the pool or a nearby tick/bin array changes (accountSubscribe); Ctrl-C stops cleanly",
+  },
+  subscribeArrays: { type: "number", default: SUBSCRIBE_ARRAYS_EACH_SIDE, desc: "Subscribe: tick arrays watched each side of the current one" },
+  debounceMs: { type: "number", default: 200, desc: "Subscribe: changes this close together make one re-quote" },
+  maxEvents: { type: "number", desc: "Subscribe: stop after this many re-quotes" },
+  recordUpdates: { type: "string", desc: "Subscribe: append every account notification to this JSONL (input of `clamm replay-ws`)" },
+  wsEndpoint: { type: "string", desc: "PubSub websocket; default derived from --rpc (or required with --fromSnapshot)" },
+} as const;
+
+/** Prometheus endpoint for probe and batch (metrics.ts) */
+export const metricsOptions = {
+  metricsPort: {
+    type: "number",
+    desc: "Serve the latest spreads, mid, liquidity, errors, probe latency and RPC calls at http://<host>:<port>/metrics (with --watch or --subscribe)",
+  },
+} as const;
+
+const subscribeOptionsFrom = (argv: any): SubscribeOptions => ({
+  arraysEachSide: Number(argv.subscribeArrays),
+  debounceMs: Number(argv.debounceMs),
+  maxEvents: argv.maxEvents as number | undefined,
+  recordUpdates: argv.recordUpdates as string | undefined,
+  quiet: Boolean(argv.quiet),
+});
+
+const watchOptionsFrom = (argv: any): WatchOptions => ({
+  intervalSec: Number(argv.intervalSec),
+  jitterPct: Number(argv.jitterPct),
+  maxBackoffSec: Number(argv.maxBackoffSec),
+  quiet: Boolean(argv.quiet),
+});
+
+/** The price source flags of probeOptions, for the other commands that convert to USD */
+const usdSourceFlags = {
+  usdSources: probeOptions.usdSources,
+  solUsdSource: probeOptions.solUsdSource,
+  pythMaxAgeSec: probeOptions.pythMaxAgeSec,
+  pythMaxConfBps: probeOptions.pythMaxConfBps,
+};
+
+/** probeOptions defaults, for argv-like objects that did not go through yargs (batch entries) */
+const probeDefaults: Record<string, unknown> = Object.fromEntries(
+  Object.entries(probeOptions).filter(([, o]) => "default" in o).map(([k, o]) => [k, (o as any).default])
+);
+
+/** Probe flags that stay meaningful when every pool runs the same ladder */
+const compareFlags = Object.fromEntries(
+  Object.entries(probeOptions).filter(([k]) => !["dex", "pool", "snapshot", "fromSnapshot", "out", "depthDump", "targetImpactBps", "targetBasis"].includes(k))
+);
+
+/** "5,10,25" -> [5, 10, 25] */
+function parseTargets(list: string): number[] {
+  const out = list.split(",").map((s) => Number(s.trim()));
+  if (out.length === 0 || out.some((x) => !Number.isFinite(x) || x <= 0)) {
+    throw new Error(`Invalid --targetImpactBps "${list}". Expected positive bps, e.g. 5,10,25`);
+  }
+  return out;
+}
+
+/** The connection's token resolver, configured by --tokenList / --tokenCache; call before any adapter loads */
+const tokensFrom = (argv: any, conn: Connection): TokenResolver =>
+  tokensFor(conn, { listPath: argv.tokenList as string | undefined, cachePath: argv.tokenCache as string | undefined });
+
+/** --oraclePool / --usdSources and the --solUsdSource fallback as price sources (price_sources.ts) */
+function usdSourcesFrom(argv: any, conn: Connection, tokens: TokenResolver, oracleDex: Dex): { usdSources: PriceSource[]; solUsdSource?: PriceSource } {
+  const limits = {
+    maxAgeSec: Number(argv.pythMaxAgeSec ?? PYTH_MAX_AGE_SEC),
+    maxConfBps: Number(argv.pythMaxConfBps ?? PYTH_MAX_CONF_BPS),
+  };
+  const mintFor = (s: string) => tokens.mintFor(s);
+  const mk = (spec: PriceSourceSpec) => mkPriceSource(spec, conn, (ref) => mkAdapter(ref.dex, conn, ref.pool), limits);
+  const specs = priceSourceSpecs({
+    usdSources: argv.usdSources as string | undefined,
+    oraclePool: argv.oraclePool as string | undefined,
+    oracleDex,
+    dexes: DEXES,
+    mintFor,
+  });
+  const [sol] = parsePriceSources(String(argv.solUsdSource ?? DEFAULT_SOL_USD_SOURCE), DEXES, mintFor);
+  return { usdSources: specs.map(mk), solUsdSource: sol && mk(sol) };
+}
+
+/** --rpc (comma list) and the --rpc* transport flags; `rpc` overrides --rpc (batch config) */
+const rpcFrom = (argv: any, rpc = argv.rpc as string): RpcOptions => ({
+  endpoints: parseEndpoints(rpc),
+  retries: Number(argv.rpcRetries),
+  timeoutMs: Number(argv.rpcTimeoutMs),
+  rps: Number(argv.rpcRps),
+});
+
+/**
+ * One run_id (a probe, a batch pass, a watch cycle). `finish` prints the RPC stats since
+ * the last run (unless --quiet) and appends the run's manifest line (--manifest).
+ */
+function mkRun(argv: any, conn: Connection): { runId: string; finish: () => void } {
+  const runId = mkRunId();
+  const started = new Date();
+  const finish = () => {
+    const stats = conn instanceof RpcConnection ? conn.takeStats() : undefined;
+    if (stats && !argv.quiet) console.log(formatRpcStats(stats));
+    if (!argv.manifest) return;
+    const endpoints = conn instanceof RpcConnection ? conn.endpoints : [];
+    appendManifest(argv.manifest as string, mkManifest({ runId, command: String(argv._?.[0] ?? ""), started, endpoints, stats }));
+  };
+  return { runId, finish };
+}
+
+/* -------------------------------- Handlers -------------------------------- */
+type ProbeExtra = { out?: OutputSink; runId: string; pair?: [string, string]; trigger?: Trigger };
+type Prober = (extra: ProbeExtra) => Promise<ProbeResult>;
+
+/** True when a probe wrote error rows: a size that failed or a target that ended in error */
+const hasErrorRows = (r: ProbeResult): boolean =>
+  r.rows.some((row) => row.error !== undefined) || (r.targets ?? []).some((t) => t.status === "error");
+
+/**
+ * Prober for one pool described by probe flags (`argv`) on an already open connection.
+ * Adapters are built once, so repeated calls (watch mode) reuse the SDK clients;
+ * pass `sdk` to keep a handle on the venue adapter (subscribe mode reads its state).
+ */
+function mkPoolProber(
+  argv: any,
+  dex: Dex,
+  pool: string,
+  conn: Connection,
+  sdk: ProbeAdapter = mkAdapter(dex, conn, pool)
+): Prober {
+  const engine = argv.engine as EngineMode;
+  const arrays = Number(argv.engineArrays);
+  const adapter = engine === "native" ? mkEngineAdapter(sdk, arrays) : sdk;
+  const crossCheck = engine === "diff" ? mkEngineAdapter(sdk, arrays) : undefined;
+
+  const tokens = tokensFor(conn);
+  const usd = usdSourcesFrom(argv, conn, tokens, (argv.oracleDex ?? dex) as Dex);
+
+  return (extra) => runProbe(adapter, {
+    sizes: parseSizes(argv.sizes as string, argv.range as string | undefined),
+    sizeUnit: argv.sizeUnit as SizeUnit | undefined,
+    priceUnit: argv.priceUnit as PriceUnit | undefined,
+    usdMode: Boolean(argv.usdMode),
+    quoteMint: argv.quoteMint ? tokens.mintFor(argv.quoteMint as string) : undefined,
+    usdMint: tokens.mintFor(argv.usdMint as string),
+    tokens,
+    ...usd,
+    maxUsdDeviationBps: Number(argv.maxUsdDeviationBps ?? Number.POSITIVE_INFINITY),
+    depthDump: argv.depthDump as number | undefined,
+    coverageArrays: Number(argv.coverageArrays ?? 0),
+    unitCheck: argv.unitCheck as UnitCheckMode,
+    slots: slotSourceOf(conn),
+    maxSlotSpread: Number(argv.maxSlotSpread),
+    slotCheck: argv.slotCheck as SlotCheckMode,
+    engine,
+    crossCheck,
+    sleepMs: Number(argv.sleepMs ?? 0),
+    out: extra.out,
+    runId: extra.runId,
+    quiet: Boolean(argv.quiet),
+    pair: extra.pair,
+    trigger: extra.trigger,
+    targets: argv.targetImpactBps
+      ? { bps: parseTargets(String(argv.targetImpactBps)), basis: argv.targetBasis as TargetBasis }
+      : undefined,
+  });
+}
+
+/** With --metricsPort every probe also updates the metrics */
+const metered = (metrics: Metrics | undefined, dex: Dex, pool: string, probe: Prober): Prober =>
+  metrics ? (extra) => metrics.meter(dex, pool, () => probe(extra)) : probe;
+
+/** Start --metricsPort if set; returns the registry and its closer */
+async function startMetrics(argv: any): Promise<{ metrics?: Metrics; close: () => Promise<void> }> {
+  if (argv.metricsPort === undefined) return { close: async () => {} };
+  if (!argv.watch && !argv.subscribe) console.warn("⚠️  --metricsPort without --watch/--subscribe: the endpoint closes when this run ends");
+  const metrics = mkMetrics();
+  const close = await metrics.serve(Number(argv.metricsPort));
+  if (!argv.quiet) console.log(`📈 Metrics on http://localhost:${argv.metricsPort}/metrics`);
+  return { metrics, close };
+}
+
+/** Probe one pool once */
+function probePool(argv: any, dex: Dex, pool: string, conn: Connection, extra: ProbeExtra): Promise<ProbeResult> {
+  return mkPoolProber(argv, dex, pool, conn)(extra);
+}
+
+async function probeCommand(argv: any): Promise<void> {
+  const snap = argv.fromSnapshot ? readSnapshot(argv.fromSnapshot as string) : null;
+  const dex = (argv.dex ?? snap?.dex) as Dex;
+  const pool = (argv.pool ?? snap?.pool) as string;
+  if (snap && (snap.dex !== dex || snap.pool !== pool)) {
+    throw new Error(`--fromSnapshot holds ${snap.dex} pool ${snap.pool}, not ${dex} pool ${pool}`);
+  }
+
+  if (argv.subscribe && snap && !argv.wsEndpoint) {
+    throw new Error("--subscribe with --fromSnapshot needs --wsEndpoint (e.g. a `clamm replay-ws` server)");
+  }
+
+  const { metrics, close: closeMetrics } = await startMetrics(argv);
+  const wsEndpoint = argv.wsEndpoint as string | undefined;
+  const config = { commitment: "confirmed" as const, wsEndpoint, fetchMiddleware: metrics?.fetchMiddleware };
+  const conn: Connection = snap
+    ? new ReplayConnection(snap, wsEndpoint)
+    : argv.snapshot
+      ? new RecordingConnection(rpcFrom(argv), config)
+      : new RpcConnection(rpcFrom(argv), config);
+  tokensFrom(argv, conn);
+  if (!argv.quiet) {
+    console.log(`=== CLAMM_SPREADS (${dex}, ${snap ? `snapshot slot ${snap.slot}` : "RPC"} single-pool) ===`);
+  }
+
+  const out = argv.out
+    ? await (argv.targetImpactBps
+      ? openSink(argv.out as string, "target", targetCsvHeader())
+      : openSink(argv.out as string, "roundtrip", csvHeader()))
+    : undefined;
+  const sdk = mkAdapter(dex, conn, pool);
+  const probe = metered(metrics, dex, pool, mkPoolProber(argv, dex, pool, conn, sdk));
+  try {
+    if (argv.subscribe) {
+      // One run_id for the whole subscription; rows tell re-quotes apart by trigger
+      const run = mkRun(argv, conn);
+      try {
+        await runSubscription(conn, sdk, async (trigger) => {
+          await probe({ out, runId: run.runId, trigger });
+          // The initial quote is the capture; updates go to --recordUpdates
+          if (trigger.accounts === "initial" && conn instanceof RecordingConnection) saveSnapshot();
+        }, subscribeOptionsFrom(argv));
+      } finally {
+        run.finish();
+      }
+    } else if (argv.watch) {
+      // One run_id per cycle: each cycle is one sample of the pool
+      await runWatch(async () => {
+        const run = mkRun(argv, conn);
+        try {
+          return !hasErrorRows(await probe({ out, runId: run.runId }));
+        } finally {
+          run.finish();
+        }
+      }, watchOptionsFrom(argv));
+    } else {
+      const run = mkRun(argv, conn);
+      try {
+        await probe({ out, runId: run.runId });
+      } finally {
+        run.finish();
+      }
+    }
+  } finally {
+    out?.close();
+    await closeMetrics();
+  }
+
+  if (conn instanceof RecordingConnection && !argv.subscribe) saveSnapshot();
+
+  function saveSnapshot() {
+    const snapOut = (conn as RecordingConnection).toSnapshot(dex, pool);
+    writeSnapshot(argv.snapshot as string, snapOut);
+    if (!argv.quiet) {
+      console.log(`📸 Snapshot: ${Object.keys(snapOut.accounts).length} accounts @ slot ${snapOut.slot} -> ${argv.snapshot}`);
+    }
+  }
+}
+
+/**
+ * Every pool of a config file in one process: one connection (so one mint
+ * decimals cache), one output, one run_id per pass. A failing pool is reported and skipped.
+ * With --watch the pass repeats on a schedule, with the same adapters.
+ */
+async function batchCommand(argv: any): Promise<void> {
+  const cfg = readBatchConfig(argv.config as string, probeOptions as any);
+  const rpc = (argv.rpc ?? cfg.rpc ?? probeDefaults.rpc) as string;
+  const outPath = (argv.out ?? cfg.out) as string | undefined;
+  const { metrics, close: closeMetrics } = await startMetrics(argv);
+  const conn = new RpcConnection(rpcFrom(argv, rpc), { commitment: "confirmed", fetchMiddleware: metrics?.fetchMiddleware });
+  tokensFrom(argv, conn);
+  const out = outPath ? await openSink(outPath, "roundtrip", csvHeader()) : undefined;
+  const probers = cfg.pools.map((entry) => {
+    const a = { ...probeDefaults, ...entry, quiet: Boolean(argv.quiet) };
+    return { entry, probe: metered(metrics, entry.dex, entry.pool, mkPoolProber(a, entry.dex, entry.pool, conn)) };
+  });
+
+  /** One pass over every pool; returns the pools that failed or wrote error rows */
+  const pass = async (): Promise<string[]> => {
+    const { runId, finish } = mkRun(argv, conn);
+    const failed: string[] = [];
+    for (const [i, { entry, probe }] of probers.entries()) {
+      if (!argv.quiet) console.log(`\n=== [${i + 1}/${probers.length}] ${entry.dex} ${entry.pool} (run ${runId}) ===`);
+      try {
+        if (hasErrorRows(await probe({ out, runId }))) failed.push(`${entry.dex}:${entry.pool}`);
+      } catch (e: unknown) {
+        failed.push(`${entry.dex}:${entry.pool}`);
+        console.error(`[batch] ${entry.dex} ${entry.pool} failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    console.log(`Batch ${runId}: ${probers.length - failed.length}/${probers.length} pools probed without errors${outPath ? ` -> ${outPath}` : ""}`);
+    finish();
+    return failed;
+  };
+
+  try {
+    if (argv.watch) {
+      await runWatch(async () => (await pass()).length === 0, watchOptionsFrom(argv));
+    } else if ((await pass()).length) {
+      process.exitCode = 1;
+    }
+  } finally {
+    out?.close();
+    await closeMetrics();
+  }
+}
+
+/** Pools named by --pools and/or a batch --config (dex + pool only), deduplicated */
+function poolRefsFrom(argv: any): PoolRef[] {
+  const refs: PoolRef[] = [
+    ...(argv.pools ? parsePoolList(argv.pools as string, DEXES) : []),
+    ...(argv.config ? readBatchConfig(argv.config as string, probeOptions as any).pools.map(({ dex, pool }) => ({ dex, pool })) : []),
+  ];
+  return [...new Map(refs.map((r) => [poolLabel(r), r])).values()];
+}
+
+/**
+ * Same ladder, same QUOTE, same units on every pool holding --mintA/--mintB, then
+ * rank each size. Pools come from --pools and/or a batch config (dex + pool only).
+ */
+async function compareCommand(argv: any): Promise<void> {
+  const conn = new RpcConnection(rpcFrom(argv), { commitment: "confirmed" });
+  const tokens = tokensFrom(argv, conn);
+  const mintA = tokens.mintFor(argv.mintA as string);
+  const mintB = tokens.mintFor(argv.mintB as string);
+  const usdMint = tokens.mintFor(argv.usdMint as string);
+  const quoteMint = argv.quoteMint ? tokens.mintFor(argv.quoteMint as string) : pickQuoteMint(mintA, mintB, tokens, undefined, usdMint);
+  if (quoteMint !== mintA && quoteMint !== mintB) throw new Error(`--quoteMint ${quoteMint} is not --mintA or --mintB`);
+
+  const unique = poolRefsFrom(argv);
+  if (unique.length < 2) throw new Error("compare needs at least two pools (--pools and/or --config)");
+
+  const sizes = parseSizes(argv.sizes as string, argv.range as string | undefined);
+  const { runId, finish } = mkRun(argv, conn);
+  const a = { ...argv, quoteMint, quiet: true };
+
+  const compared: ComparedPool[] = [];
+  for (const ref of unique) {
+    try {
+      const result = await probePool(a, ref.dex, ref.pool, conn, { runId, pair: [mintA, mintB] });
+      compared.push({ ...ref, result });
+      const ok = result.rows.filter((r) => !r.error).length;
+      if (!argv.quiet) console.log(`✔ ${poolLabel(ref)}  fee=${result.info.feePpm}ppm  ${ok}/${sizes.length} sizes quoted`);
+    } catch (e: unknown) {
+      console.warn(`✘ ${poolLabel(ref)} skipped: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (compared.length === 0) throw new Error("No pool could be probed for this pair");
+
+  // Units follow the first pool; every pool got the same QUOTE and flags, so they agree
+  const { sizeUnit, priceUnit, baseMint } = compared[0].result;
+  const rows = comparePools(compared, sizes);
+  if (!argv.quiet) printCompare(rows, sizeUnit, priceUnit);
+  finish();
+
+  if (argv.out) {
+    const out = await openSink(argv.out as string, "compare", compareCsvHeader());
+    for (const r of rows) out.write(compareCsvRow(r, { runId, baseMint, quoteMint, sizeUnit, priceUnit }));
+    out.close();
+  }
+}
+
+/**
+ * Split each notional (QUOTE units) across the pools of one pair by marginal price,
+ * and compare the blended price with the best single pool.
+ */
+async function splitCommand(argv: any): Promise<void> {
+  const conn = new RpcConnection(rpcFrom(argv), { commitment: "confirmed" });
+  const tokens = tokensFrom(argv, conn);
+  const mintA = tokens.mintFor(argv.mintA as string);
+  const mintB = tokens.mintFor(argv.mintB as string);
+  const quoteMint = argv.quoteMint ? tokens.mintFor(argv.quoteMint as string) : pickQuoteMint(mintA, mintB, tokens);
+  if (quoteMint !== mintA && quoteMint !== mintB) throw new Error(`--quoteMint ${quoteMint} is not --mintA or --mintB`);
+  const baseMint = quoteMint === mintA ? mintB : mintA;
+
+  const refs = poolRefsFrom(argv);
+  if (refs.length < 2) throw new Error("split needs at least two pools (--pools and/or --config)");
+  const engine = argv.engine as EngineMode;
+
+  const venues: SplitVenue[] = [];
+  for (const ref of refs) {
+    try {
+      const sdk = mkAdapter(ref.dex, conn, ref.pool);
+      const adapter = engine === "native" ? mkEngineAdapter(sdk, Number(argv.engineArrays)) : sdk;
+      const info = await adapter.load();
+      if (![mintA, mintB].includes(info.mintA) || ![mintA, mintB].includes(info.mintB)) {
+        throw new Error(`holds ${info.mintA}/${info.mintB}, not the pair`);
+      }
+      venues.push({ label: poolLabel(ref), adapter, info });
+    } catch (e: unknown) {
+      console.warn(`✘ ${poolLabel(ref)} skipped: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (venues.length === 0) throw new Error("No pool could be loaded for this pair");
+
+  const first = venues[0].info;
+  const quoteDec = first.mintA === quoteMint ? first.decA : first.decB;
+  const baseDec = first.mintA === quoteMint ? first.decB : first.decA;
+  const sides: SplitSide[] = argv.side === "both" ? ["buy", "sell"] : [argv.side as SplitSide];
+  const { runId, finish } = mkRun(argv, conn);
+  const out = argv.out ? await openSink(argv.out as string, "split", splitCsvHeader()) : undefined;
+  await tokens.resolve([quoteMint]);
+
+  try {
+    for (const notional of parseSizes(argv.sizes as string, argv.range as string | undefined)) {
+      const notionalRaw = BigInt(new Decimal(notional).mul(Decimal.pow(10, quoteDec)).toFixed(0));
+      for (const side of sides) {
+        try {
+          const r = await optimizeSplit(venues, side, quoteMint, notionalRaw, Number(argv.steps));
+          if (!argv.quiet) printSplit(r, notional, tokens.symbol(quoteMint) || "QUOTE");
+          for (const row of splitCsvRows(r, { runId, baseMint, quoteMint, quoteDec, baseDec })) out?.write(row);
+        } catch (e: unknown) {
+          console.warn(`${side.toUpperCase()} ${notional}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+    }
+  } finally {
+    out?.close();
+  }
+  finish();
+}
+
+/**
+ * Absolute liquidity profile and ±bps depth bands for one pool, from raw
+ * tick arrays (any venue with clmmState). USD columns need a USD side or an oracle.
+ */
+async function depthCommand(argv: any): Promise<void> {
+  const dex = argv.dex as Dex;
+  const conn = new RpcConnection(rpcFrom(argv), { commitment: "confirmed" });
+  const tokens = tokensFrom(argv, conn);
+  const adapter = mkAdapter(dex, conn, argv.pool as string);
+  if (!adapter.clmmState) throw new Error(`dex=${dex} has no tick-level state; depth is not supported`);
+
+  const info = await adapter.load();
+  const state = await adapter.clmmState(Number(argv.arrays));
+  await tokens.resolve([info.mintA, info.mintB]);
+  const usdMint = tokens.mintFor(argv.usdMint as string);
+  const quoteMint = pickQuoteMint(info.mintA, info.mintB, tokens, argv.quoteMint ? tokens.mintFor(argv.quoteMint as string) : undefined, usdMint);
+  if (quoteMint !== info.mintA && quoteMint !== info.mintB) throw new Error(`--quoteMint ${quoteMint} is not one of the pool mints`);
+  const baseMint = quoteMint === info.mintA ? info.mintB : info.mintA;
+
+  const mid = quotePerBaseAt(state.sqrtPriceX64, info, quoteMint);
+  const rates = await usdRates({
+    quoteMint, baseMint, pxQuotePerBase: mid, usdMint, tokens, usdMode: true,
+    ...usdSourcesFrom(argv, conn, tokens, (argv.oracleDex ?? dex) as Dex),
+  }).catch((e: unknown) => {
+    console.warn(`No USD rate for the QUOTE (USD columns stay NaN): ${e instanceof Error ? e.message : String(e)}`);
+    return null;
+  });
+  const usd = rates ?? { usdPerQuote: Number.NaN, usdPerBase: Number.NaN };
+
+  const bandsBps = String(argv.bands).split(",").map((x) => Number(x.trim())).filter((n) => n > 0 && n < 1e4);
+  if (!bandsBps.length) throw new Error(`No valid --bands in "${argv.bands}". Use bps from mid, e.g. --bands 10,25,100`);
+  const profile = liquidityProfile(state);
+  const bands = depthBands(state, info, quoteMint, bandsBps, usd);
+  const { runId, finish } = mkRun(argv, conn);
+  const ts = new Date().toISOString();
+  const qSym = tokens.symbol(quoteMint) || "QUOTE";
+  const bSym = tokens.symbol(baseMint) || "BASE";
+
+  if (!argv.quiet) {
+    printProfile(profile, state);
+    console.log(`Depth around mid ${mid.toPrecision(10)} ${qSym}/${bSym} (liquidity ${state.liquidity}, tick ${state.tickCurrent}):`);
+    console.log(`  ${"bps".padStart(5)}  ${`ask ${bSym}`.padStart(18)}  ${"ask USD".padStart(14)}  ${`bid ${qSym}`.padStart(18)}  ${"bid USD".padStart(14)}`);
+    for (const b of bands) {
+      console.log(
+        `  ${String(b.bps).padStart(5)}  ${b.askBase.toFixed(6).padStart(18)}  ${b.askUsd.toFixed(2).padStart(14)}  ` +
+        `${b.bidQuote.toFixed(6).padStart(18)}  ${b.bidUsd.toFixed(2).padStart(14)}${b.covered ? "" : "  (beyond loaded arrays: raise --arrays)"}`
+      );
+    }
+  }
+
+  const poolCols = [ts, runId, dex, info.pool, baseMint, quoteMint];
+  if (argv.out) {
+    const out = await openSink(argv.out as string, "depth_band", depthBandsCsvHeader());
+    for (const b of bands) {
+      out.write([...poolCols, mid, state.liquidity.toString(), state.tickCurrent,
+        b.bps, b.askBase, b.askUsd, b.bidQuote, b.bidUsd, String(b.covered)]);
+    }
+    out.close();
+  }
+  if (argv.profileOut) {
+    const out = await openSink(argv.profileOut as string, "depth_profile", depthProfileCsvHeader());
+    for (const seg of profile) {
+      out.write([...poolCols, seg.tickLower, seg.tickUpper,
+        quotePerBaseAt(seg.sqrtLower, info, quoteMint), quotePerBaseAt(seg.sqrtUpper, info, quoteMint),
+        seg.liquidity.toString(), seg.amountA.toString(), seg.amountB.toString()]);
+    }
+    out.close();
+  }
+  if (argv.json) {
+    const out = {
+      ts_utc: ts, run_id: runId, dex, pool: info.pool, base_mint: baseMint, quote_mint: quoteMint,
+      mid_quote_per_base: mid, liquidity_u128: state.liquidity.toString(), tick_current: state.tickCurrent,
+      usd_per_quote: rates?.usdPerQuote ?? null, usd_source: rates?.source ?? null,
+      coverage: { lower_tick: state.lowerTick, upper_tick: state.upperTick },
+      bands,
+      profile: profile.map((seg) => ({
+        tick_lower: seg.tickLower, tick_upper: seg.tickUpper, liquidity_u128: seg.liquidity.toString(),
+        amount_a: seg.amountA.toString(), amount_b: seg.amountB.toString(),
+      })),
+    };
+    fs.mkdirSync(path.dirname(argv.json as string), { recursive: true });
+    fs.writeFileSync(argv.json as string, JSON.stringify(out, null, 2));
+  }
+  finish();
+}
+
+/**
+ * Every Orca / Raydium CLMM pool of --mintA/--mintB across fee tiers, with fee, liquidity
+ * and a TVL estimate. --poolsOnly / --configOut feed compare, split and batch.
+ */
+async function discoverCommand(argv: any): Promise<void> {
+  const a = { ...argv, quiet: argv.quiet || argv.poolsOnly };
+  const conn = new RpcConnection(rpcFrom(argv), { commitment: "confirmed" });
+  const tokens = tokensFrom(argv, conn);
+  const mintA = tokens.mintFor(argv.mintA as string);
+  const mintB = tokens.mintFor(argv.mintB as string);
+  if (mintA === mintB) throw new Error("--mintA and --mintB are the same mint");
+  const usdMint = tokens.mintFor(argv.usdMint as string);
+  await tokens.resolve([mintA, mintB]);
+  const quoteMint = pickQuoteMint(mintA, mintB, tokens, argv.quoteMint ? tokens.mintFor(argv.quoteMint as string) : undefined, usdMint);
+  if (quoteMint !== mintA && quoteMint !== mintB) throw new Error(`--quoteMint ${quoteMint} is not --mintA or --mintB`);
+  const baseMint = quoteMint === mintA ? mintB : mintA;
+  const { runId, finish } = mkRun(a, conn);
+
+  const list = (v: string) => v.split(",").map((x) => x.trim()).filter(Boolean);
+  const found: DiscoveredPool[] = [];
+  for (const dex of list(argv.dexes as string) as Dex[]) {
+    try {
+      switch (dex) {
+        case "orca":
+          found.push(...(await discoverOrca(conn, mintA, mintB, {
+            configs: list(argv.orcaConfigs as string),
+            tickSpacings: list(argv.orcaTickSpacings as string).map(Number),
+          })));
+          break;
+        case "raydium":
+          found.push(...(await discoverRaydium(conn, mintA, mintB, { programId: argv.raydiumProgram as string })));
+          break;
+        default:
+          throw new Error(`discovery is not supported (use ${DISCOVER_DEXES.join(" | ")})`);
+      }
+    } catch (e: unknown) {
+      console.warn(`✘ ${dex} skipped: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  const [decA, decB] = await tokens.decimalsOf([mintA, mintB]);
+  const pools = await valuePools(conn, found, { quoteMint, decimals: { [mintA]: decA, [mintB]: decB } });
+  const deepest = pools.find((p) => Number.isFinite(p.midQuotePerBase) && p.liquidity > 0n);
+  const rates = deepest
+    ? await usdRates({
+      quoteMint, baseMint, pxQuotePerBase: deepest.midQuotePerBase, usdMint, tokens, usdMode: true,
+      ...usdSourcesFrom(argv, conn, tokens, (argv.oracleDex ?? "orca") as Dex),
+    }).catch((e: unknown) => {
+      console.warn(`No USD rate for the QUOTE (TVL stays in QUOTE): ${e instanceof Error ? e.message : String(e)}`);
+      return null;
+    })
+    : null;
+  const usdPerQuote = rates?.usdPerQuote ?? Number.NaN;
+
+  const pair = `${tokens.symbol(baseMint) || baseMint}/${tokens.symbol(quoteMint) || quoteMint}`;
+  if (!a.quiet) {
+    printDiscovered(pools, { pair, quoteSymbol: tokens.symbol(quoteMint) || "QUOTE", usdPerQuote });
+    if (poolsArg(pools)) console.log(`\n--pools ${poolsArg(pools)}`);
+  }
+  if (argv.poolsOnly) console.log(poolsArg(pools));
+  finish();
+
+  if (argv.out) {
+    const out = await openSink(argv.out as string, "discover", discoverCsvHeader());
+    const ts = new Date().toISOString();
+    for (const p of pools) out.write(discoverCsvRow(p, { ts, runId, usdPerQuote }));
+    out.close();
+  }
+  if (argv.configOut) {
+    writeBatchConfig(argv.configOut as string, {
+      defaults: { quoteMint },
+      pools: pools.filter((p) => p.liquidity > 0n).map((p) => ({ dex: p.dex, pool: p.pool })),
+    });
+    if (!a.quiet) console.log(`Batch config: ${argv.configOut}`);
+  }
+}
+
+/**
+ * Merge roundtrip CSVs of any probe generation, drop duplicates, and roll them up
+ * per pool and size bucket for each --periods entry.
+ */
+async function mergeCommand(argv: any): Promise<void> {
+  const files = argv.files as string[];
+  const stats = emptyReadStats();
+  const all: MergedRow[] = [];
+  for (const f of files) all.push(...(await readRoundtrip(f, stats)));
+  const rows = dedupe(all).sort((a, b) => a.ts.localeCompare(b.ts));
+
+  const periods = String(argv.periods).split(",").map((p) => p.trim()) as RollupPeriod[];
+  const bad = periods.filter((p) => !ROLLUP_PERIODS.includes(p));
+  if (bad.length) throw new Error(`Invalid --periods ${bad.join(",")}. Use ${ROLLUP_PERIODS.join(",")}`);
+  const edges = argv.buckets ? String(argv.buckets).split(",").map((x) => Number(x.trim())) : [];
+  if (edges.some((e) => !(e > 0))) throw new Error(`Invalid --buckets "${argv.buckets}". Use positive sizes, e.g. 100,1000,10000`);
+
+  if (!argv.quiet) {
+    const layouts = Object.entries(stats.byLayout).filter(([, n]) => n > 0).map(([l, n]) => `${l}=${n}`).join(" ");
+    console.log(
+      `Read ${stats.rows} rows from ${files.length} file(s) (${layouts || "none"}); ` +
+      `${all.length - rows.length} duplicates dropped, ${stats.malformed} malformed, ${stats.foreign} from other record types`
+    );
+  }
+
+  const runId = mkRunId();
+  if (argv.merged) {
+    const out = await openSink(argv.merged as string, "merged", mergedCsvHeader());
+    for (const r of rows) out.write(mergedCsvRow(r));
+    out.close();
+  }
+
+  const out = argv.out ? await openSink(argv.out as string, "rollup", rollupCsvHeader()) : undefined;
+  try {
+    for (const period of periods) {
+      const rolled = rollup(rows, period, edges);
+      if (!argv.quiet) {
+        console.log(`\nRollup by ${period} (median roundtrip [p10, p90]):`);
+        printRollup(rolled);
+      }
+      for (const r of rolled) out?.write(rollupCsvRow(r, { runId }));
+    }
+  } finally {
+    out?.close();
+  }
+}
+
+/**
+ * Charts of roundtrip output (any layout merge reads), after the time/pool/run filters,
+ * written as SVG (and PNG) to --outDir, with an HTML report on request.
+ */
+async function plotCommand(argv: any): Promise<void> {
+  const files = argv.files as string[];
+  const stats = emptyReadStats();
+  const all: MergedRow[] = [];
+  for (const f of files) all.push(...(await readRoundtrip(f, stats)));
+
+  const since = argv.since ? parseTime(argv.since as string) : undefined;
+  const until = argv.until ? parseTime(argv.until as string) : undefined;
+  const pools = argv.pools ? String(argv.pools).split(",").map((p) => p.trim()).filter(Boolean) : undefined;
+  const rows = filterRows(dedupe(all), { since, until, pools, runId: argv.runId as string | undefined });
+  if (rows.length === 0) throw new Error(`No roundtrip rows left to plot (${stats.rows} read; check --since/--until/--pools/--runId)`);
+
+  const ts = rows.map((r) => r.ts).sort();
+  const runIds = [...new Set(rows.map((r) => r.runId).filter(Boolean))];
+  const notes = [
+    `${rows.length} rows from ${files.join(", ")}`,
+    `${ts[0]} → ${ts[ts.length - 1]}`,
+    runIds.length === 1 ? `run ${runIds[0]}` : `${runIds.length} runs`,
+    `generated ${new Date().toISOString()}`,
+  ];
+  const written = await writePlots(rows, {
+    outDir: argv.outDir as string,
+    png: Boolean(argv.png),
+    html: Boolean(argv.html),
+    title: argv.title as string,
+    notes,
+  });
+  if (!argv.quiet) {
+    console.log(`Plotted ${rows.length} rows (${notes[1]}):`);
+    for (const f of written) console.log(`  ${f}`);
+  }
+}
+
+/** Serve recorded account updates over a mock PubSub websocket until done or Ctrl-C */
+async function replayWsCommand(argv: any): Promise<void> {
+  const updates = readUpdates(argv.updates as string);
+  const server = await startMockWs(updates, {
+    port: Number(argv.port),
+    intervalMs: Number(argv.intervalMs),
+    startDelayMs: Number(argv.startDelayMs),
+    exitWhenDone: Boolean(argv.exitWhenDone),
+    quiet: Boolean(argv.quiet),
+  });
+  const dispose = onShutdown("replay-ws", () => void server.close());
+  try {
+    await server.done;
+  } finally {
+    dispose();
+  }
+}
+
+/** Parse `args` (already stripped of node + script) and run the chosen command. */
+export async function runCli(args: string[]): Promise<void> {
+  await yargs(args)
+    .scriptName("clamm")
+    .command("probe", "BUY/SELL roundtrip spreads on a single pool", (y: any) =>
+      y.options({ ...probeOptions, ...watchOptions, ...subscribeOptions, ...metricsOptions }).check((a: any) =>
+        a.fromSnapshot || (a.dex && a.pool) ? true : "Missing --dex and --pool (or --fromSnapshot)"),
+      probeCommand)
+    .command("compare", "Best execution across pools of one pair over the same size ladder", (y: any) =>
+      y.options({
+        ...compareFlags,
+        mintA: { type: "string", demandOption: true, desc: "Pair mint (or symbol, e.g. SOL)" },
+        mintB: { type: "string", demandOption: true, desc: "Pair mint (or symbol, e.g. USDC)" },
+        pools: { type: "string", desc: "Comma list of <dex>:<pubkey>" },
+        config: { type: "string", desc: "Batch config whose pools (dex + pool) join the comparison" },
+        out: { type: "string", alias: "csv", desc: "Write the per-size ranking (not the per-pool rows) here (.csv, .jsonl or .db)" },
+      }),
+      compareCommand)
+    .command("split", "Split an order across pools of one pair by marginal price", (y: any) =>
+      y.options({
+        rpc: probeOptions.rpc,
+        mintA: { type: "string", demandOption: true, desc: "Pair mint (or symbol, e.g. SOL)" },
+        mintB: { type: "string", demandOption: true, desc: "Pair mint (or symbol, e.g. USDC)" },
+        quoteMint: { type: "string", desc: "QUOTE side of the pair (default: USDC, else a USD stablecoin, else BTC, else mintB)" },
+        pools: { type: "string", desc: "Comma list of <dex>:<pubkey>" },
+        config: { type: "string", desc: "Batch config whose pools (dex + pool) join the split" },
+        sizes: { type: "string", default: "10000,100000,1000000", desc: "Notionals in QUOTE units" },
+        range: probeOptions.range,
+        side: { type: "string", choices: ["buy", "sell", "both"] as const, default: "both" },
+        steps: { type: "number", default: SPLIT_STEPS, desc: "Chunks per notional; finer is closer to optimal but costs a quote per chunk" },
+        engine: { type: "string", choices: ["sdk", "native"] as const, default: "sdk", desc: "Quote with the venue SDK or the native engine" },
+        engineArrays: probeOptions.engineArrays,
+        ...tokenOptions,
+        ...rpcOptions,
+        ...manifestOptions,
+        out: { type: "string", alias: "csv", desc: "One row per pool leg, split summary repeated (.csv, .jsonl or .db)" },
+        quiet: { type: "boolean", default: false },
+      }),
+      splitCommand)
+    .command("depth", "Absolute liquidity per tick range and token/USD depth within ±bps of mid", (y: any) =>
+      y.options({
+        dex: { ...probeOptions.dex, demandOption: true },
+        pool: { type: "string", demandOption: true },
+        rpc: probeOptions.rpc,
+        arrays: { type: "number", default: DEPTH_ARRAYS_EACH_SIDE, desc: "Tick arrays loaded each side of the current one" },
+        bands: { type: "string", default: DEPTH_BANDS_BPS.join(","), desc: "Depth bands, bps from mid" },
+        quoteMint: probeOptions.quoteMint,
+        usdMint: probeOptions.usdMint,
+        oraclePool: probeOptions.oraclePool,
+        oracleDex: probeOptions.oracleDex,
+        ...usdSourceFlags,
+        ...tokenOptions,
+        ...rpcOptions,
+        ...manifestOptions,
+        out: { type: "string", alias: "csv", desc: "Depth bands, one row per band (.csv, .jsonl or .db)" },
+        profileOut: { type: "string", alias: "profileCsv", desc: "Liquidity profile, one row per tick range (.csv, .jsonl or .db)" },
+        json: { type: "string", desc: "Bands + profile as one JSON document" },
+        quiet: { type: "boolean", default: false },
+      }),
+      depthCommand)
+    .command("discover", "Every Orca / Raydium CLMM pool of a mint pair across fee tiers, with fee, liquidity and TVL", (y: any) =>
+      y.options({
+        mintA: { type: "string", demandOption: true, desc: "Pair mint (or symbol, e.g. SOL)" },
+        mintB: { type: "string", demandOption: true, desc: "Pair mint (or symbol, e.g. USDC)" },
+        rpc: probeOptions.rpc,
+        dexes: { type: "string", default: DISCOVER_DEXES.join(","), desc: "Venues to search (comma list)" },
+        orcaConfigs: { type: "string", default: ORCA_CONFIGS.join(","), desc: "WhirlpoolsConfig accounts whose pools are derived (comma list)" },
+        orcaTickSpacings: { type: "string", default: ORCA_TICK_SPACINGS.join(","), desc: "Tick spacings tried under each WhirlpoolsConfig" },
+        raydiumProgram: { type: "string", default: RAYDIUM_CLMM_PROGRAM, desc: "Raydium CLMM program id" },
+        quoteMint: probeOptions.quoteMint,
+        usdMint: probeOptions.usdMint,
+        oraclePool: probeOptions.oraclePool,
+        oracleDex: { ...probeOptions.oracleDex, desc: "Venue of --oraclePool (default orca)" },
+        ...usdSourceFlags,
+        ...tokenOptions,
+        ...rpcOptions,
+        ...manifestOptions,
+        out: { type: "string", alias: "csv", desc: "One row per pool (.csv, .jsonl or .db)" },
+        configOut: { type: "string", desc: "Write the pools with active liquidity as a batch config (.json, else YAML)" },
+        poolsOnly: { type: "boolean", default: false, desc: "Print only the <dex>:<pubkey> list, for compare/split --pools" },
+        quiet: { type: "boolean", default: false },
+      }),
+      discoverCommand)
+    .command("batch <config>", "Probe every pool listed in a JSON/YAML config, one run_id and one output", (y: any) =>
+      y.positional("config", { type: "string", desc: "Batch config (.json, .yaml, .yml)" })
+        .options({
+          rpc: { type: "string", desc: "Overrides the config's rpc (comma list: failovers)" },
+          out: { type: "string", alias: "csv", desc: "Overrides the config's out (.csv, .jsonl or .db)" },
+          quiet: { type: "boolean", default: false },
+          ...tokenOptions,
+          ...rpcOptions,
+          ...manifestOptions,
+          ...watchOptions,
+          ...metricsOptions,
+        }),
+      batchCommand)
+    .command("merge <files..>", "Merge probe CSVs of every layout, dedupe, and roll up per pool and size", (y: any) =>
+      y.positional("files", { type: "string", desc: "Roundtrip output: CSVs of any probe generation, or clamm JSONL/SQLite" })
+        .options({
+          out: { type: "string", desc: "Rollup rows, one per period bucket, pool and size bucket (.csv, .jsonl or .db)" },
+          merged: { type: "string", desc: "Also write the reconciled, deduplicated rows here" },
+          periods: { type: "string", default: ROLLUP_PERIODS.join(","), desc: "day (UTC date), hour (UTC hour), tod (hour of day across days)" },
+          buckets: { type: "string", desc: "Size bucket edges, e.g. 100,1000,10000 (a row goes to the largest edge <= its size). Default: one bucket per size" },
+          quiet: { type: "boolean", default: false },
+        }),
+      mergeCommand)
+    .command("plot <files..>", "SVG/PNG charts of probe output (spread and impact vs size, exec price vs mid) and an HTML report", (y: any) =>
+      y.positional("files", { type: "string", desc: "Roundtrip output: CSVs of any probe generation, or clamm JSONL/SQLite" })
+        .options({
+          outDir: { type: "string", default: "data/plots", desc: "Where the charts (and report.html) go" },
+          since: { type: "string", desc: "Only rows at or after: ISO time or a span back from now (90m, 24h, 7d)" },
+          until: { type: "string", desc: "Only rows before (same forms as --since)" },
+          pools: { type: "string", desc: "Comma list of pools (pubkey or dex:pubkey); default every pool" },
+          runId: { type: "string", desc: "Only this run_id (e.g. one batch pass); 'latest' for the newest" },
+          png: { type: "boolean", default: false, desc: "Also write a PNG of each chart" },
+          html: { type: "boolean", default: false, desc: "Also write report.html: the charts inline plus per-pool, per-size summary tables" },
+          title: { type: "string", default: "CLMM spreads report", desc: "HTML report title" },
+          quiet: { type: "boolean", default: false },
+        }),
+      plotCommand)
+    .command("replay-ws <updates>", "Mock PubSub websocket replaying --recordUpdates JSONL, for offline --subscribe runs", (y: any) =>
+      y.positional("updates", { type: "string", desc: "JSONL of account updates (probe --recordUpdates)" })
+        .options({
+          port: { type: "number", default: 8900 },
+          intervalMs: { type: "number", default: 500, desc: "Wait between replayed updates" },
+          startDelayMs: { type: "number", default: 1000, desc: "Wait after the first subscribe before replaying" },
+          exitWhenDone: { type: "boolean", default: false, desc: "Stop after replaying to the first client" },
+          quiet: { type: "boolean", default: false },
+        }),
+      replayWsCommand)
+    .demandCommand(1)
+    .strict()
+    .fail((msg: string | undefined, err: Error | undefined) => {
+      if (err) throw err;
+      console.error(msg);
+      process.exit(1);
+    })
+    .parseAsync();
+}
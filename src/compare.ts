@@ -0,0 +1,136 @@
+/**
+ * Best execution across pools of one pair: every pool runs the same size ladder
+ * through runProbe (same QUOTE, same units), then each size is ranked.
+ * - best BUY  = lowest buy px     best SELL = highest sell px
+ * - best RT   = lowest roundtrip bps; spreads are worst − best, in bps
+ */
+
+import type { Dex } from "./adapter.js";
+import type { PriceUnit, ProbeResult, RoundtripRow, SizeUnit } from "./probe.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type PoolRef = { dex: Dex; pool: string };
+
+/** One pool's probe, labelled for the report */
+export type ComparedPool = PoolRef & { result: ProbeResult };
+
+/** Ranking at one size. Pool fields are `dex:pubkey`; empty when no pool quoted. */
+export type CompareRow = {
+  size: number;
+  poolsQuoted: number;
+  bestBuyPool: string; bestBuyPx: number; worstBuyPx: number; buySpreadBps: number;
+  bestSellPool: string; bestSellPx: number; worstSellPx: number; sellSpreadBps: number;
+  bestRtPool: string; bestRtBps: number; bestRtImpactBps: number;
+  worstRtPool: string; worstRtBps: number; rtSpreadBps: number;
+};
+
+/* ------------------------------- Parsing ---------------------------------- */
+/** "orca:Czfq..,raydium:3ucN.." -> [{ dex, pool }] */
+export function parsePoolList(list: string, dexes: readonly Dex[]): PoolRef[] {
+  return list.split(",").map((s) => s.trim()).filter(Boolean).map((item) => {
+    const [dex, pool] = item.split(":");
+    if (!pool || !dexes.includes(dex as Dex)) {
+      throw new Error(`Invalid pool "${item}". Expected <dex>:<pubkey> with dex in ${dexes.join("|")}`);
+    }
+    return { dex: dex as Dex, pool };
+  });
+}
+
+export const poolLabel = (p: PoolRef): string => `${p.dex}:${p.pool}`;
+
+/* ------------------------------- Ranking ---------------------------------- */
+const bpsApart = (worse: number, better: number): number => Math.abs(worse - better) / better * 1e4;
+
+/** Rank the pools at every size of the (shared) ladder. Error rows are left out. */
+export function comparePools(pools: ComparedPool[], sizes: number[]): CompareRow[] {
+  return sizes.map((size) => {
+    const quoted = pools
+      .map((p) => ({ label: poolLabel(p), row: p.result.rows.find((r) => r.size === size) }))
+      .filter((q): q is { label: string; row: RoundtripRow } => !!q.row && !q.row.error && Number.isFinite(q.row.rtBps));
+
+    const nan = Number.NaN;
+    if (quoted.length === 0) {
+      return {
+        size, poolsQuoted: 0,
+        bestBuyPool: "", bestBuyPx: nan, worstBuyPx: nan, buySpreadBps: nan,
+        bestSellPool: "", bestSellPx: nan, worstSellPx: nan, sellSpreadBps: nan,
+        bestRtPool: "", bestRtBps: nan, bestRtImpactBps: nan,
+        worstRtPool: "", worstRtBps: nan, rtSpreadBps: nan,
+      };
+    }
+
+    const byBuy = [...quoted].sort((a, b) => a.row.buyPx - b.row.buyPx);
+    const bySell = [...quoted].sort((a, b) => b.row.sellPx - a.row.sellPx);
+    const byRt = [...quoted].sort((a, b) => a.row.rtBps - b.row.rtBps);
+    const last = <T>(xs: T[]): T => xs[xs.length - 1];
+
+    return {
+      size,
+      poolsQuoted: quoted.length,
+      bestBuyPool: byBuy[0].label,
+      bestBuyPx: byBuy[0].row.buyPx,
+      worstBuyPx: last(byBuy).row.buyPx,
+      buySpreadBps: bpsApart(last(byBuy).row.buyPx, byBuy[0].row.buyPx),
+      bestSellPool: bySell[0].label,
+      bestSellPx: bySell[0].row.sellPx,
+      worstSellPx: last(bySell).row.sellPx,
+      sellSpreadBps: bpsApart(last(bySell).row.sellPx, bySell[0].row.sellPx),
+      bestRtPool: byRt[0].label,
+      bestRtBps: byRt[0].row.rtBps,
+      bestRtImpactBps: byRt[0].row.impactBps,
+      worstRtPool: last(byRt).label,
+      worstRtBps: last(byRt).row.rtBps,
+      rtSpreadBps: last(byRt).row.rtBps - byRt[0].row.rtBps,
+    };
+  });
+}
+
+/* --------------------------------- Output --------------------------------- */
+export function compareCsvHeader(): string[] {
+  return [
+    "ts_utc", "run_id",
+    "base_mint", "quote_mint", "size_unit", "price_unit", "size_value",
+    "pools_quoted",
+    "best_buy_pool", "best_buy_px", "worst_buy_px", "buy_spread_bps",
+    "best_sell_pool", "best_sell_px", "worst_sell_px", "sell_spread_bps",
+    "best_rt_pool", "best_rt_bps", "best_rt_impact_bps",
+    "worst_rt_pool", "worst_rt_bps", "rt_spread_bps",
+  ];
+}
+
+export function compareCsvRow(
+  r: CompareRow,
+  ctx: { runId: string; baseMint: string; quoteMint: string; sizeUnit: SizeUnit; priceUnit: PriceUnit }
+): Array<string | number> {
+  return [
+    new Date().toISOString(), ctx.runId,
+    ctx.baseMint, ctx.quoteMint, ctx.sizeUnit, ctx.priceUnit, r.size,
+    r.poolsQuoted,
+    r.bestBuyPool, r.bestBuyPx, r.worstBuyPx, r.buySpreadBps,
+    r.bestSellPool, r.bestSellPx, r.worstSellPx, r.sellSpreadBps,
+    r.bestRtPool, r.bestRtBps, r.bestRtImpactBps,
+    r.worstRtPool, r.worstRtBps, r.rtSpreadBps,
+  ];
+}
+
+/** Console table: one line per size */
+export function printCompare(rows: CompareRow[], sizeUnit: SizeUnit, priceUnit: PriceUnit): void {
+  const short = (label: string) => (label ? `${label.slice(0, label.indexOf(":") + 7)}…` : "-");
+  const d = priceUnit === "usd" ? 6 : 10;
+  console.log(`\nBest execution by size (${sizeUnit} sizes, ${priceUnit} prices):`);
+  console.log(`  ${"Size".padStart(10)}  Pools  ${"Best BUY".padEnd(32)}${"Best SELL".padEnd(32)}${"Best RT".padEnd(30)}RT spread`);
+  for (const r of rows) {
+    const size = r.size.toLocaleString(undefined, { maximumFractionDigits: 6 }).padStart(10);
+    if (r.poolsQuoted === 0) {
+      console.log(`  ${size}  0      (no pool quoted this size)`);
+      continue;
+    }
+    console.log(
+      `  ${size}  ${String(r.poolsQuoted).padEnd(5)}  ` +
+      `${short(r.bestBuyPool).padEnd(16)} ${r.bestBuyPx.toFixed(d).padEnd(14)} ` +
+      `${short(r.bestSellPool).padEnd(16)} ${r.bestSellPx.toFixed(d).padEnd(14)} ` +
+      `${short(r.bestRtPool).padEnd(16)} ${r.bestRtBps.toFixed(2).padStart(8)}bps  ` +
+      `${r.rtSpreadBps.toFixed(2)}bps (buy ${r.buySpreadBps.toFixed(2)} / sell ${r.sellSpreadBps.toFixed(2)})`
+    );
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Tick-array coverage of quotes, replayed on the raw pool state (engine.ts):
+ * - which arrays a quote runs through and how many initialized ticks it crosses;
+ * - for a size the pool cannot fill, the tick array that stops the swap and the
+ *   largest size the arrays before it do fill.
+ * A venue's own limit on arrays per swap (Whirlpool: 3) stops a swap like a missing array.
+ * Raydium swaps skip uninitialized arrays, so there a missing array is a
+ * conservative stop: the real limit is at or past it.
+ */
+
+import type { ClmmState } from "./engine.js";
+import { arraysCrossed, simulateSwap, swapToEdge } from "./engine.js";
+
+/* -------------------------------- Types ---------------------------------- */
+/** What a replayed quote ran through */
+export type QuotePath = { arrays: number[]; ticksCrossed: number };
+
+/**
+ * Why a swap cannot go past tick array `start`:
+ * uninitialized = no account (no position has a tick in it), not loaded = past the
+ * arrays read, swap limit = the venue's arrays-per-swap limit
+ */
+export type Blocker = { start: number; why: "uninitialized" | "not loaded" | "swap limit" };
+
+/** The most one swap fills in a direction, in raw units of the pool's input and output mints */
+export type MaxFill = { amountIn: bigint; amountOut: bigint; blocker: Blocker };
+
+/* -------------------------------- Replay ---------------------------------- */
+const arrayStart = (tick: number, span: number): number => Math.floor(tick / span) * span;
+
+/** The state narrowed to what one swap may use: the current array and `maxArrays` − 1 more each way */
+export function limitArrays(state: ClmmState, maxArrays?: number): ClmmState {
+  if (!maxArrays) return state;
+  const current = arrayStart(state.tickCurrent, state.arraySpan);
+  return {
+    ...state,
+    lowerTick: Math.max(state.lowerTick, current - (maxArrays - 1) * state.arraySpan),
+    upperTick: Math.min(state.upperTick, current + maxArrays * state.arraySpan),
+  };
+}
+
+/** Arrays and initialized ticks of one quote (pool-side amount); undefined when the replay cannot fill it */
+export function replayQuote(state: ClmmState, amount: bigint, exactIn: boolean, aToB: boolean): QuotePath | undefined {
+  try {
+    const r = simulateSwap(state, amount, exactIn, aToB);
+    return { arrays: arraysCrossed(state, r.sqrtPriceEnd), ticksCrossed: r.ticksCrossed };
+  } catch {
+    return undefined;
+  }
+}
+
+/** The first tick array past `limited`'s coverage in direction aToB, and why the swap stops there */
+export function blockingArray(state: ClmmState, limited: ClmmState, aToB: boolean): Blocker {
+  const span = state.arraySpan;
+  if (state.lowerTick >= state.upperTick) {
+    return { start: arrayStart(state.tickCurrent, span), why: "uninitialized" };
+  }
+  const start = aToB ? limited.lowerTick - span : limited.upperTick;
+  if (aToB ? limited.lowerTick > state.lowerTick : limited.upperTick < state.upperTick) return { start, why: "swap limit" };
+  return { start, why: state.missingArrays.includes(start) ? "uninitialized" : "not loaded" };
+}
+
+/** The most one swap in direction aToB fills before it is blocked (`maxArrays`: the venue's limit) */
+export function maxFill(state: ClmmState, aToB: boolean, maxArrays?: number): MaxFill {
+  const limited = limitArrays(state, maxArrays);
+  const blocker = blockingArray(state, limited, aToB);
+  if (limited.lowerTick >= limited.upperTick) return { amountIn: 0n, amountOut: 0n, blocker };
+  const r = swapToEdge(limited, aToB);
+  return { amountIn: r.amountIn, amountOut: r.amountOut, blocker };
+}
+
+/* --------------------------------- Output --------------------------------- */
+/** CSV cell: start ticks in swap order, space separated */
+export const formatArrays = (starts: number[] | undefined): string => (starts ?? []).join(" ");
+
+export const formatBlocker = (b: Blocker): string => `tick array ${b.start} ${b.why}`;
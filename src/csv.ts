@@ -2,25 +2,88 @@
 import fs from "fs";
 import path from "path";
 
-export type CsvAppender = {
-  write: (row: (string | number)[]) => void;
-  close: () => void;
-};
+import type { Cell, OutputSink } from "./sink.js";
 
-export function mkCsvAppender(outPath: string, header?: (string | number)[]): CsvAppender {
+/** RFC 4180: quote cells holding a comma, quote or line break; double embedded quotes */
+export function csvCell(v: Cell): string {
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export const csvLine = (row: Cell[]): string => row.map(csvCell).join(",");
+
+/** Parse CSV text (RFC 4180 quoting, LF or CRLF) into rows of cells; blank lines are dropped */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (text[i + 1] === '"') cell += text[++i];
+      else quoted = false;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      if (row.length > 1 || row[0] !== "") rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.length > 1 || row[0] !== "") rows.push(row);
+  return rows;
+}
+
+/** First line of a file (without the line break), reading only its first block */
+function firstLine(file: string): string {
+  const fd = fs.openSync(file, "r");
+  try {
+    const buf = Buffer.alloc(64 * 1024);
+    const n = fs.readSync(fd, buf, 0, buf.length, 0);
+    return buf.toString("utf8", 0, n).split(/\r?\n/)[0];
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Append rows to a CSV. The header is written only when the file is new (or empty);
+ * an existing file must start with the same header, else rows would land under the wrong columns.
+ */
+export function mkCsvAppender(outPath: string, header?: Cell[]): OutputSink {
   fs.mkdirSync(path.dirname(outPath), { recursive: true });
 
-  const existed = fs.existsSync(outPath);
+  const fresh = !fs.existsSync(outPath) || fs.statSync(outPath).size === 0;
+  if (!fresh && header && header.length) {
+    const have = firstLine(outPath);
+    const want = csvLine(header);
+    if (have !== want) {
+      throw new Error(
+        `${outPath} has a different header; write to a new file (or move the old one away).\n` +
+        `  have: ${have.slice(0, 200)}\n  want: ${want.slice(0, 200)}`
+      );
+    }
+  }
   const fd = fs.openSync(outPath, "a");
 
   // Write header exactly once on fresh file
-  if (!existed && header && header.length) {
-    fs.writeSync(fd, header.join(",") + "\n");
+  if (fresh && header && header.length) {
+    fs.writeSync(fd, csvLine(header) + "\n");
   }
 
   return {
-    write: (row: (string | number)[]) => {
-      fs.writeSync(fd, row.join(",") + "\n");
+    write: (row: Cell[]) => {
+      fs.writeSync(fd, csvLine(row) + "\n");
     },
     close: () => {
       try {
@@ -0,0 +1,174 @@
+/**
+ * Liquidity depth from raw CLMM state (ClmmState, same decoders as the native engine).
+ * - Profile: absolute active liquidity per initialized-tick range, rebuilt from the
+ *   pool's current `liquidity` outwards (liquidityNet added going up, subtracted going down)
+ * - Bands: tokens resting between mid and mid·(1 ± bps), in QUOTE per BASE terms:
+ *   ask = BASE a buyer can take before the price is +bps away, bid = QUOTE a seller can take
+ */
+
+import Decimal from "decimal.js";
+
+import type { PoolInfo } from "./adapter.js";
+import { amountADelta, amountBDelta, sqrtPriceAtTick, type ClmmState } from "./engine.js";
+import { pxBperA_fromSqrt } from "./utils.js";
+
+/* -------------------------------- Types ---------------------------------- */
+/** One tick range with constant liquidity; above the price it holds A, below it B. */
+export type LiquiditySegment = {
+  tickLower: number;
+  tickUpper: number;
+  sqrtLower: bigint;          // clipped to the current price for the segment holding it
+  sqrtUpper: bigint;
+  liquidity: bigint;          // absolute active liquidity
+  amountA: bigint;            // raw token A resting in the range (0 below the price)
+  amountB: bigint;            // raw token B resting in the range (0 above the price)
+};
+
+export type DepthBand = {
+  bps: number;
+  askBase: number;            // BASE between mid and mid·(1 + bps)
+  bidQuote: number;           // QUOTE between mid·(1 − bps) and mid
+  askUsd: number;
+  bidUsd: number;
+  covered: boolean;           // both band edges inside the loaded tick arrays
+};
+
+/** Default bands (bps from mid) */
+export const DEPTH_BANDS_BPS = [10, 25, 50, 100, 500];
+/** Default tick arrays each side: ±500 bps is ~490 ticks */
+export const DEPTH_ARRAYS_EACH_SIDE = 10;
+
+/* -------------------------------- Profile --------------------------------- */
+export function liquidityProfile(state: ClmmState): LiquiditySegment[] {
+  const { sqrtPriceX64: sqrt, tickCurrent, liquidity, ticks, lowerTick, upperTick } = state;
+  const segments: LiquiditySegment[] = [];
+
+  // Up: ranges [tickCurrent, next) hold A at the running liquidity
+  let L = liquidity;
+  let from = tickCurrent;
+  let sqrtFrom = sqrt;
+  const above = ticks.filter((t) => t.tick > tickCurrent && t.tick < upperTick);
+  for (const edge of [...above, { tick: upperTick, liquidityNet: 0n }]) {
+    const sqrtTo = sqrtPriceAtTick(edge.tick, state.tickMath);
+    segments.push({
+      tickLower: from, tickUpper: edge.tick, sqrtLower: sqrtFrom, sqrtUpper: sqrtTo, liquidity: L,
+      amountA: amountADelta(sqrtFrom, sqrtTo, L, false), amountB: 0n,
+    });
+    L += edge.liquidityNet;
+    from = edge.tick;
+    sqrtFrom = sqrtTo;
+  }
+
+  // Down: crossing tick t (t <= tickCurrent) leaves the range that starts at t
+  L = liquidity;
+  let to = tickCurrent;
+  let sqrtTo = sqrt;
+  const below = ticks.filter((t) => t.tick <= tickCurrent && t.tick > lowerTick).reverse();
+  for (const edge of [...below, { tick: lowerTick, liquidityNet: 0n }]) {
+    const sqrtLo = sqrtPriceAtTick(edge.tick, state.tickMath);
+    segments.push({
+      tickLower: edge.tick, tickUpper: to, sqrtLower: sqrtLo, sqrtUpper: sqrtTo, liquidity: L,
+      amountA: 0n, amountB: amountBDelta(sqrtLo, sqrtTo, L, false),
+    });
+    L -= edge.liquidityNet;
+    to = edge.tick;
+    sqrtTo = sqrtLo;
+  }
+
+  return segments.sort((a, b) => a.tickLower - b.tickLower);
+}
+
+/** Raw tokens resting between the current price and `target`: A above it, B below */
+function tokensBetween(profile: LiquiditySegment[], sqrtCur: bigint, target: bigint): { a: bigint; b: bigint } {
+  const [lo, hi] = sqrtCur < target ? [sqrtCur, target] : [target, sqrtCur];
+  let a = 0n;
+  let b = 0n;
+  for (const seg of profile) {
+    const l = seg.sqrtLower > lo ? seg.sqrtLower : lo;
+    const h = seg.sqrtUpper < hi ? seg.sqrtUpper : hi;
+    if (l >= h || seg.liquidity <= 0n) continue;
+    if (seg.sqrtLower >= sqrtCur) a += amountADelta(l, h, seg.liquidity, false);
+    else b += amountBDelta(l, h, seg.liquidity, false);
+  }
+  return { a, b };
+}
+
+/* --------------------------------- Bands ---------------------------------- */
+/**
+ * Depth within ±bps of mid, in QUOTE per BASE. A +bps move in QUOTE/BASE is a
+ * move of the pool's B/A price up (QUOTE = B) or down by 1/(1+bps) (QUOTE = A).
+ */
+export function depthBands(
+  state: ClmmState,
+  info: PoolInfo,
+  quoteMint: string,
+  bandsBps: number[],
+  usd: { usdPerQuote: number; usdPerBase: number }
+): DepthBand[] {
+  const profile = liquidityProfile(state);
+  const quoteIsA = quoteMint === info.mintA;
+  const sqrtMid = new Decimal(state.sqrtPriceX64.toString());
+  const sqrtAt = (bPerAFactor: Decimal): bigint => BigInt(sqrtMid.mul(bPerAFactor.sqrt()).toFixed(0));
+  const sqrtLo = sqrtPriceAtTick(state.lowerTick, state.tickMath);
+  const sqrtHi = sqrtPriceAtTick(state.upperTick, state.tickMath);
+  const ui = (raw: bigint, dec: number) => new Decimal(raw.toString()).div(Decimal.pow(10, dec)).toNumber();
+
+  return bandsBps.map((bps) => {
+    const up = new Decimal(1).add(bps / 1e4);
+    const down = new Decimal(1).sub(bps / 1e4);
+    // B/A factors for QUOTE/BASE ×up (ask) and ×down (bid)
+    const askTo = sqrtAt(quoteIsA ? new Decimal(1).div(up) : up);
+    const bidTo = sqrtAt(quoteIsA ? new Decimal(1).div(down) : down);
+    const ask = tokensBetween(profile, state.sqrtPriceX64, askTo);
+    const bid = tokensBetween(profile, state.sqrtPriceX64, bidTo);
+
+    const askBase = quoteIsA ? ui(ask.b, info.decB) : ui(ask.a, info.decA);
+    const bidQuote = quoteIsA ? ui(bid.a, info.decA) : ui(bid.b, info.decB);
+    const inside = (s: bigint) => s >= sqrtLo && s <= sqrtHi;
+    return {
+      bps,
+      askBase,
+      bidQuote,
+      askUsd: askBase * usd.usdPerBase,
+      bidUsd: bidQuote * usd.usdPerQuote,
+      covered: inside(askTo) && inside(bidTo),
+    };
+  });
+}
+
+/* --------------------------------- Output --------------------------------- */
+/** QUOTE per BASE at a sqrt price */
+export function quotePerBaseAt(sqrt: bigint, info: PoolInfo, quoteMint: string): number {
+  const bPerA = pxBperA_fromSqrt(sqrt, info.decA, info.decB);
+  return (quoteMint === info.mintA ? new Decimal(1).div(bPerA) : bPerA).toNumber();
+}
+
+export function depthBandsCsvHeader(): string[] {
+  return [
+    "ts_utc", "run_id", "dex", "pool", "base_mint", "quote_mint",
+    "mid_quote_per_base", "liquidity_u128", "tick_current",
+    "band_bps", "ask_base", "ask_usd", "bid_quote", "bid_usd", "covered",
+  ];
+}
+
+export function depthProfileCsvHeader(): string[] {
+  return [
+    "ts_utc", "run_id", "dex", "pool", "base_mint", "quote_mint",
+    "tick_lower", "tick_upper", "px_lower_quote_per_base", "px_upper_quote_per_base",
+    "liquidity_u128", "amount_a", "amount_b",
+  ];
+}
+
+/** Console dump: absolute liquidity per range, lowest ticks first (replaces the old liquidityNet dump) */
+export function printProfile(profile: LiquiditySegment[], state: ClmmState): void {
+  console.log(`🔍 Liquidity profile (ticks ${state.lowerTick}..${state.upperTick}, current ${state.tickCurrent}):`);
+  for (const seg of profile) {
+    if (seg.liquidity === 0n && seg.amountA === 0n && seg.amountB === 0n) continue;
+    const mark = seg.tickLower <= state.tickCurrent && state.tickCurrent < seg.tickUpper ? " ◀ current" : "";
+    console.log(
+      `ticks [${String(seg.tickLower).padStart(8)}, ${String(seg.tickUpper).padStart(8)})  ` +
+      `L=${seg.liquidity.toString().padStart(24)}  A=${seg.amountA.toString().padStart(20)}  B=${seg.amountB.toString().padStart(20)}${mark}`
+    );
+  }
+  console.log("");
+}
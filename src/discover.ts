@@ -0,0 +1,205 @@
+/**
+ * Pool discovery for a mint pair across every fee tier, from raw accounts:
+ * - Orca: Whirlpool PDAs for each WhirlpoolsConfig x tick spacing (PDAUtil), one batched read
+ * - Raydium CLMM: pool PDAs for each AmmConfig (fee tier) of the program, plus a
+ *   getProgramAccounts memcmp on the two mint fields for pools no PDA points at
+ * Each pool is valued from its vault balances at its own mid (a TVL estimate:
+ * vaults also hold fees owed to LPs and the protocol).
+ */
+
+import { Connection, PublicKey, type AccountInfo } from "@solana/web3.js";
+import { ORCA_WHIRLPOOL_PROGRAM_ID, ORCA_WHIRLPOOLS_CONFIG, PDAUtil } from "@orca-so/whirlpools-sdk";
+
+import type { Dex } from "./adapter.js";
+import { decodeRaydiumAmmConfig, decodeRaydiumPool, decodeWhirlpool, raydiumPoolPda, type ClmmPoolAccount } from "./layouts.js";
+import { midBPerA_fromSqrtX64 } from "./utils.js";
+
+export const RAYDIUM_CLMM_PROGRAM = "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK";
+export const ORCA_CONFIGS: readonly string[] = [ORCA_WHIRLPOOLS_CONFIG.toBase58()];
+/** Every spacing a WhirlpoolsConfig has had a fee tier for (32896: splash pools) */
+export const ORCA_TICK_SPACINGS: readonly number[] = [1, 2, 4, 8, 16, 32, 64, 96, 128, 256, 32896];
+/** Venues discovery knows how to enumerate */
+export const DISCOVER_DEXES: readonly Dex[] = ["orca", "raydium"];
+
+const RAYDIUM_POOL_SIZE = 1544;
+const RAYDIUM_AMM_CONFIG_SIZE = 117;
+const RAYDIUM_MINT0_OFFSET = 73;
+const RAYDIUM_MINT1_OFFSET = 105;
+const TOKEN_AMOUNT_OFFSET = 64; // SPL Token / Token-2022 account: mint, owner, amount
+
+/* -------------------------------- Types ---------------------------------- */
+/** How a pool was found: derived address, or a program-wide memcmp scan */
+export type DiscoverySource = "pda" | "memcmp";
+
+export type DiscoveredPool = ClmmPoolAccount & {
+  dex: Dex;
+  pool: string;
+  programId: string;
+  config: string;             // WhirlpoolsConfig (Orca) / AmmConfig (Raydium)
+  source: DiscoverySource;
+  feePpm: number;             // taker fee, one leg; NaN when the fee config could not be read
+};
+
+export type ValuedPool = DiscoveredPool & {
+  baseMint: string;
+  quoteMint: string;
+  baseInVault: number;        // decimals applied
+  quoteInVault: number;
+  midQuotePerBase: number;
+  tvlQuote: number;           // quote + base at this pool's mid
+};
+
+/* ------------------------------- Discovery -------------------------------- */
+/** The pair in the order both programs store it (mint A < mint B, bytewise) */
+export function orderMints(x: string, y: string): [PublicKey, PublicKey] {
+  const [a, b] = [new PublicKey(x), new PublicKey(y)];
+  return Buffer.compare(a.toBuffer(), b.toBuffer()) < 0 ? [a, b] : [b, a];
+}
+
+/** Whirlpools of the pair under each config and tick spacing; PDAs with no account are left out */
+export async function discoverOrca(
+  conn: Connection,
+  mintX: string,
+  mintY: string,
+  o: { configs: readonly string[]; tickSpacings: readonly number[] }
+): Promise<DiscoveredPool[]> {
+  const [mintA, mintB] = orderMints(mintX, mintY);
+  const keys: PublicKey[] = o.configs.flatMap((cfg) => o.tickSpacings.map((ts) =>
+    PDAUtil.getWhirlpool(ORCA_WHIRLPOOL_PROGRAM_ID, new PublicKey(cfg), mintA, mintB, ts).publicKey));
+  const accounts = await conn.getMultipleAccountsInfo(keys);
+  return accounts.flatMap((acc, i) => {
+    if (!acc || !acc.owner.equals(ORCA_WHIRLPOOL_PROGRAM_ID)) return [];
+    const w = decodeWhirlpool(acc.data);
+    return [{
+      ...w,
+      dex: "orca" as const,
+      pool: keys[i].toBase58(),
+      programId: ORCA_WHIRLPOOL_PROGRAM_ID.toBase58(),
+      config: w.whirlpoolsConfig,
+      source: "pda" as const,
+      feePpm: w.feeRate,
+    }];
+  });
+}
+
+/**
+ * Raydium CLMM pools of the pair: the pool PDA of every AmmConfig, then a memcmp scan
+ * on the mints. Many public RPCs refuse the scan; the PDA hits still come back.
+ */
+export async function discoverRaydium(
+  conn: Connection,
+  mintX: string,
+  mintY: string,
+  o: { programId: string }
+): Promise<DiscoveredPool[]> {
+  const program = new PublicKey(o.programId);
+  const [mint0, mint1] = orderMints(mintX, mintY);
+
+  const configs = await conn.getProgramAccounts(program, { filters: [{ dataSize: RAYDIUM_AMM_CONFIG_SIZE }] });
+  const fees = new Map(configs.map(({ pubkey, account }) => [pubkey.toBase58(), decodeRaydiumAmmConfig(account.data).tradeFeeRate]));
+  const pdas = configs.map(({ pubkey }) => raydiumPoolPda(program, pubkey, mint0, mint1));
+
+  const found = new Map<string, { account: AccountInfo<Buffer>; source: DiscoverySource }>();
+  (await conn.getMultipleAccountsInfo(pdas)).forEach((account, i) => {
+    if (account?.owner.equals(program)) found.set(pdas[i].toBase58(), { account, source: "pda" });
+  });
+  try {
+    const matches = await conn.getProgramAccounts(program, {
+      filters: [
+        { dataSize: RAYDIUM_POOL_SIZE },
+        { memcmp: { offset: RAYDIUM_MINT0_OFFSET, bytes: mint0.toBase58() } },
+        { memcmp: { offset: RAYDIUM_MINT1_OFFSET, bytes: mint1.toBase58() } },
+      ],
+    });
+    for (const { pubkey, account } of matches) {
+      if (!found.has(pubkey.toBase58())) found.set(pubkey.toBase58(), { account, source: "memcmp" });
+    }
+  } catch (e: unknown) {
+    console.warn(`Raydium mint scan failed, AmmConfig PDAs only: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  return [...found].map(([pool, { account, source }]) => {
+    const p = decodeRaydiumPool(account.data);
+    return {
+      ...p,
+      dex: "raydium" as const,
+      pool,
+      programId: o.programId,
+      config: p.ammConfig,
+      source,
+      feePpm: fees.get(p.ammConfig) ?? Number.NaN,
+    };
+  });
+}
+
+/* -------------------------------- Valuation ------------------------------- */
+/**
+ * Vault balances (one batched read) and a TVL estimate in QUOTE for each pool,
+ * deepest first. `decimals` maps both mints of the pair.
+ */
+export async function valuePools(
+  conn: Connection,
+  pools: DiscoveredPool[],
+  o: { quoteMint: string; decimals: Record<string, number> }
+): Promise<ValuedPool[]> {
+  const vaults = await conn.getMultipleAccountsInfo(pools.flatMap((p) => [new PublicKey(p.vaultA), new PublicKey(p.vaultB)]));
+  const amount = (acc: AccountInfo<Buffer> | null, dec: number) =>
+    acc && acc.data.length >= TOKEN_AMOUNT_OFFSET + 8 ? Number(acc.data.readBigUInt64LE(TOKEN_AMOUNT_OFFSET)) / 10 ** dec : Number.NaN;
+
+  return pools.map((p, i) => {
+    const [decA, decB] = [o.decimals[p.mintA], o.decimals[p.mintB]];
+    const [inA, inB] = [amount(vaults[2 * i], decA), amount(vaults[2 * i + 1], decB)];
+    const pxBperA = midBPerA_fromSqrtX64(p.sqrtPriceX64, decA, decB);
+    const quoteIsB = p.mintB === o.quoteMint;
+    const mid = quoteIsB ? pxBperA : 1 / pxBperA;
+    const [baseInVault, quoteInVault] = quoteIsB ? [inA, inB] : [inB, inA];
+    return {
+      ...p,
+      baseMint: quoteIsB ? p.mintA : p.mintB,
+      quoteMint: o.quoteMint,
+      baseInVault,
+      quoteInVault,
+      midQuotePerBase: mid,
+      tvlQuote: quoteInVault + baseInVault * mid,
+    };
+  }).sort((a, b) => (Number.isFinite(b.tvlQuote) ? b.tvlQuote : -1) - (Number.isFinite(a.tvlQuote) ? a.tvlQuote : -1));
+}
+
+/** "orca:<pk>,raydium:<pk>" for --pools; pools without active liquidity cannot quote and are left out */
+export const poolsArg = (pools: ValuedPool[]): string =>
+  pools.filter((p) => p.liquidity > 0n).map((p) => `${p.dex}:${p.pool}`).join(",");
+
+/* --------------------------------- Output --------------------------------- */
+export function discoverCsvHeader(): string[] {
+  return [
+    "ts_utc", "run_id", "dex", "pool", "program_id", "config", "source",
+    "base_mint", "quote_mint", "tick_spacing", "fee_ppm", "fee_bps", "liquidity_u128",
+    "mid_quote_per_base", "base_in_vault", "quote_in_vault", "tvl_quote", "usd_per_quote", "tvl_usd",
+  ];
+}
+
+export function discoverCsvRow(p: ValuedPool, ctx: { ts: string; runId: string; usdPerQuote: number }): Array<string | number> {
+  return [
+    ctx.ts, ctx.runId, p.dex, p.pool, p.programId, p.config, p.source,
+    p.baseMint, p.quoteMint, p.tickSpacing, p.feePpm, p.feePpm / 100, p.liquidity.toString(),
+    p.midQuotePerBase, p.baseInVault, p.quoteInVault, p.tvlQuote, ctx.usdPerQuote, p.tvlQuote * ctx.usdPerQuote,
+  ];
+}
+
+/** Console table: one line per pool, deepest first */
+export function printDiscovered(pools: ValuedPool[], o: { pair: string; quoteSymbol: string; usdPerQuote: number }): void {
+  const usd = Number.isFinite(o.usdPerQuote);
+  console.log(`\n${pools.length} pool(s) for ${o.pair}:`);
+  console.log(
+    `  ${"Pool".padEnd(54)}${"Fee".padStart(9)}${"Spacing".padStart(9)}  ${"Liquidity".padStart(24)}  ` +
+    `${"Mid".padStart(16)}  ${`TVL ${usd ? "USD" : o.quoteSymbol}`.padStart(16)}  Found`
+  );
+  for (const p of pools) {
+    const tvl = usd ? p.tvlQuote * o.usdPerQuote : p.tvlQuote;
+    console.log(
+      `  ${`${p.dex}:${p.pool}`.padEnd(54)}${`${(p.feePpm / 100).toFixed(2)}bps`.padStart(9)}${String(p.tickSpacing).padStart(9)}  ` +
+      `${p.liquidity.toString().padStart(24)}  ${p.midQuotePerBase.toPrecision(10).padStart(16)}  ` +
+      `${tvl.toLocaleString(undefined, { maximumFractionDigits: 0 }).padStart(16)}  ${p.source}${p.liquidity > 0n ? "" : " (no active liquidity)"}`
+    );
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * SDK-independent CLMM swap engine (bigint, Q64.64).
+ * Steps through initialized ticks, applying liquidityNet on each crossing and the
+ * fee on each step, the same way the Whirlpool and Raydium CLMM programs do.
+ * Used to cross-check SDK quotes (--engine diff) or to quote on its own (--engine native).
+ */
+
+import BN from "bn.js";
+import Decimal from "decimal.js";
+
+import type { PoolInfo, ProbeAdapter, SwapQuote } from "./adapter.js";
+import { tickArraysBetween } from "./layouts.js";
+import { Q64, pxBperA_fromSqrt } from "./utils.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type TickLiquidity = { tick: number; liquidityNet: bigint };
+
+/** The program whose tick math a pool uses */
+export type TickMath = "whirlpool" | "raydium";
+
+/** Everything a swap needs; ticks must come from a contiguous run of tick arrays. */
+export type ClmmState = {
+  tickMath: TickMath;
+  sqrtPriceX64: bigint;
+  tickCurrent: number;
+  liquidity: bigint;
+  feePpm: number;
+  tickSpacing: number;
+  ticks: TickLiquidity[];     // initialized ticks, sorted ascending
+  lowerTick: number;          // first tick covered by the loaded arrays
+  upperTick: number;          // first tick past the loaded arrays
+  arraySpan: number;          // ticks per tick array (tickSpacing x array size)
+  missingArrays: number[];    // start ticks in the requested window with no account (uninitialized)
+};
+
+export type SwapResult = {
+  amountIn: bigint;           // including fee
+  amountOut: bigint;
+  feeAmount: bigint;
+  ticksCrossed: number;
+  sqrtPriceEnd: bigint;
+};
+
+/* ------------------------------- Constants -------------------------------- */
+const FEE_DEN = 1_000_000n;
+const MAX_U128 = (1n << 128n) - 1n;
+export const MIN_TICK = -443636;
+export const MAX_TICK = 443636;
+export const MIN_SQRT_PRICE_X64 = 4295048016n;
+/** sqrtPriceAtTick(MAX_TICK) of each program */
+export const MAX_SQRT_PRICE_X64: Record<TickMath, bigint> = {
+  whirlpool: 79226673515401279992447579055n,
+  raydium: 79226673521066979257578248091n,
+};
+
+const divCeil = (a: bigint, b: bigint): bigint => (a + b - 1n) / b;
+
+/* ------------------------------ Tick math --------------------------------- */
+// Each program has its own fixed-point tables, and the results differ in the last
+// digits; a pool's state must be stepped with the tables of the program that owns it.
+
+// Whirlpool, tick > 0: Q96 multipliers for sqrt(1.0001^(2^i)), i = 1..18
+const WHIRLPOOL_POS_RATIOS: bigint[] = [
+  79236085330515764027303304731n,
+  79244008939048815603706035061n,
+  79259858533276714757314932305n,
+  79291567232598584799939703904n,
+  79355022692464371645785046466n,
+  79482085999252804386437311141n,
+  79736823300114093921829183326n,
+  80248749790819932309965073892n,
+  81282483887344747381513967011n,
+  83390072131320151908154831281n,
+  87770609709833776024991924138n,
+  97234110755111693312479820773n,
+  119332217159966728226237229890n,
+  179736315981702064433883588727n,
+  407748233172238350107850275304n,
+  2098478828474011932436660412517n,
+  55581415166113811149459800483533n,
+  38992368544603139932233054999993551n,
+];
+
+// Whirlpool, tick <= 0: Q64 multipliers for sqrt(1.0001^-(2^i)), i = 1..18
+const WHIRLPOOL_NEG_RATIOS: bigint[] = [
+  18444899583751176498n,
+  18443055278223354162n,
+  18439367220385604838n,
+  18431993317065449817n,
+  18417254355718160513n,
+  18387811781193591352n,
+  18329067761203520168n,
+  18212142134806087854n,
+  17980523815641551639n,
+  17526086738831147013n,
+  16651378430235024244n,
+  15030750278693429944n,
+  12247334978882834399n,
+  8131365268884726200n,
+  3584323654723342297n,
+  696457651847595233n,
+  26294789957452057n,
+  37481735321082n,
+];
+
+// Raydium: Q64 multipliers for sqrt(1.0001^-(2^i)), i = 0..18
+const RAYDIUM_RATIOS: bigint[] = [
+  0xfffcb933bd6fb800n,
+  0xfff97272373d4000n,
+  0xfff2e50f5f657000n,
+  0xffe5caca7e10f000n,
+  0xffcb9843d60f7000n,
+  0xff973b41fa98e800n,
+  0xff2ea16466c9b000n,
+  0xfe5dee046a9a3800n,
+  0xfcbe86c7900bb000n,
+  0xf987a7253ac65800n,
+  0xf3392b0822bb6000n,
+  0xe7159475a2caf000n,
+  0xd097f3bdfd2f2000n,
+  0xa9f746462d9f8000n,
+  0x70d869a156f31c00n,
+  0x31be135f97ed3200n,
+  0x9aa508b5b85a500n,
+  0x5d6af8dedc582cn,
+  0x2216e584f5fan,
+];
+
+/** Whirlpool's tick -> sqrt price (Q64.64), as in the program's tick_math */
+function whirlpoolSqrtPriceAtTick(tick: number): bigint {
+  if (tick > 0) {
+    let ratio = (tick & 1) !== 0 ? 79232123823359799118286999567n : 1n << 96n;
+    for (let i = 1; i < 19; i++) {
+      if ((tick & (1 << i)) !== 0) ratio = (ratio * WHIRLPOOL_POS_RATIOS[i - 1]) >> 96n;
+    }
+    return ratio >> 32n;
+  }
+  const abs = -tick;
+  let ratio = (abs & 1) !== 0 ? 18445821805675392311n : Q64;
+  for (let i = 1; i < 19; i++) {
+    if ((abs & (1 << i)) !== 0) ratio = (ratio * WHIRLPOOL_NEG_RATIOS[i - 1]) >> 64n;
+  }
+  return ratio;
+}
+
+/** Raydium CLMM's tick -> sqrt price (Q64.64), as in the program's tick_math */
+function raydiumSqrtPriceAtTick(tick: number): bigint {
+  const abs = Math.abs(tick);
+  let ratio = Q64;
+  for (let i = 0; i < RAYDIUM_RATIOS.length; i++) {
+    if ((abs & (1 << i)) !== 0) ratio = (ratio * RAYDIUM_RATIOS[i]) >> 64n;
+  }
+  return tick > 0 ? MAX_U128 / ratio : ratio;
+}
+
+/** sqrt(1.0001^tick) in Q64.64, computed the way `math`'s program does */
+export function sqrtPriceAtTick(tick: number, math: TickMath): bigint {
+  if (tick < MIN_TICK || tick > MAX_TICK) throw new Error(`tick ${tick} out of range`);
+  return math === "raydium" ? raydiumSqrtPriceAtTick(tick) : whirlpoolSqrtPriceAtTick(tick);
+}
+
+/** Largest tick whose sqrt price is <= `sqrtPriceX64` (binary search over sqrtPriceAtTick) */
+export function tickAtSqrtPrice(sqrtPriceX64: bigint, math: TickMath): number {
+  let lo = MIN_TICK;
+  let hi = MAX_TICK;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (sqrtPriceAtTick(mid, math) <= sqrtPriceX64) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/* ------------------------------ Amount math ------------------------------- */
+/** Token A between two sqrt prices: L * (hi - lo) / (hi * lo), in Q64 */
+export function amountADelta(s0: bigint, s1: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lo, hi] = s0 < s1 ? [s0, s1] : [s1, s0];
+  const num = (liquidity << 64n) * (hi - lo);
+  return roundUp ? divCeil(divCeil(num, hi), lo) : num / hi / lo;
+}
+
+/** Token B between two sqrt prices: L * (hi - lo), in Q64 */
+export function amountBDelta(s0: bigint, s1: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lo, hi] = s0 < s1 ? [s0, s1] : [s1, s0];
+  const num = liquidity * (hi - lo);
+  return roundUp ? divCeil(num, Q64) : num / Q64;
+}
+
+function nextSqrtFromAmountA(sqrt: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+  if (amount === 0n) return sqrt;
+  const num = liquidity << 64n;
+  const product = amount * sqrt;
+  if (add) return divCeil(num * sqrt, num + product);
+  if (num <= product) throw new Error("exact-out amount exceeds available token A liquidity");
+  return divCeil(num * sqrt, num - product);
+}
+
+function nextSqrtFromAmountB(sqrt: bigint, liquidity: bigint, amount: bigint, add: boolean): bigint {
+  if (add) return sqrt + (amount << 64n) / liquidity;
+  const q = divCeil(amount << 64n, liquidity);
+  if (sqrt <= q) throw new Error("exact-out amount exceeds available token B liquidity");
+  return sqrt - q;
+}
+
+/** One step between the current price and `target` (next tick or coverage edge). */
+export function computeSwapStep(
+  sqrtCur: bigint,
+  sqrtTarget: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePpm: number,
+  exactIn: boolean
+): { sqrtNext: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+  const fee = BigInt(feePpm);
+  const aToB = sqrtCur >= sqrtTarget;
+  let sqrtNext: bigint;
+  let amountIn = 0n;
+  let amountOut = 0n;
+
+  if (exactIn) {
+    const lessFee = (amountRemaining * (FEE_DEN - fee)) / FEE_DEN;
+    amountIn = aToB
+      ? amountADelta(sqrtTarget, sqrtCur, liquidity, true)
+      : amountBDelta(sqrtCur, sqrtTarget, liquidity, true);
+    sqrtNext = lessFee >= amountIn
+      ? sqrtTarget
+      : aToB
+        ? nextSqrtFromAmountA(sqrtCur, liquidity, lessFee, true)
+        : nextSqrtFromAmountB(sqrtCur, liquidity, lessFee, true);
+  } else {
+    amountOut = aToB
+      ? amountBDelta(sqrtTarget, sqrtCur, liquidity, false)
+      : amountADelta(sqrtCur, sqrtTarget, liquidity, false);
+    sqrtNext = amountRemaining >= amountOut
+      ? sqrtTarget
+      : aToB
+        ? nextSqrtFromAmountB(sqrtCur, liquidity, amountRemaining, false)
+        : nextSqrtFromAmountA(sqrtCur, liquidity, amountRemaining, false);
+  }
+
+  const max = sqrtNext === sqrtTarget;
+  if (aToB) {
+    if (!(max && exactIn)) amountIn = amountADelta(sqrtNext, sqrtCur, liquidity, true);
+    if (!(max && !exactIn)) amountOut = amountBDelta(sqrtNext, sqrtCur, liquidity, false);
+  } else {
+    if (!(max && exactIn)) amountIn = amountBDelta(sqrtCur, sqrtNext, liquidity, true);
+    if (!(max && !exactIn)) amountOut = amountADelta(sqrtCur, sqrtNext, liquidity, false);
+  }
+  if (!exactIn && amountOut > amountRemaining) amountOut = amountRemaining;
+
+  const feeAmount = exactIn && !max
+    ? amountRemaining - amountIn
+    : divCeil(amountIn * fee, FEE_DEN - fee);
+
+  return { sqrtNext, amountIn, amountOut, feeAmount };
+}
+
+/* -------------------------------- Swap ------------------------------------ */
+/**
+ * Simulate a swap of `amount` (input if exactIn, output otherwise) in direction aToB.
+ * Throws if the loaded tick arrays run out before the amount is filled.
+ */
+export function simulateSwap(state: ClmmState, amount: bigint, exactIn: boolean, aToB: boolean): SwapResult {
+  return walk(state, amount, exactIn, aToB, false);
+}
+
+/** Input big enough that no loaded range can absorb it */
+const UNBOUNDED = 1n << 192n;
+
+/**
+ * Swap in direction aToB until the loaded tick arrays run out: the most they can fill
+ * (`amountIn` including fee, `amountOut`). Does not throw at the coverage edge.
+ */
+export function swapToEdge(state: ClmmState, aToB: boolean): SwapResult {
+  return walk(state, UNBOUNDED, true, aToB, true);
+}
+
+function walk(state: ClmmState, amount: bigint, exactIn: boolean, aToB: boolean, toEdge: boolean): SwapResult {
+  if (state.lowerTick >= state.upperTick) throw new Error("tick array holding the current tick is not loaded");
+  const maxSqrt = MAX_SQRT_PRICE_X64[state.tickMath];
+  let sqrt = state.sqrtPriceX64;
+  let tick = state.tickCurrent;
+  let liquidity = state.liquidity;
+  let remaining = amount;
+  let calculated = 0n;
+  let feeTotal = 0n;
+  let ticksCrossed = 0;
+
+  while (remaining > 0n) {
+    // a->b moves price down: next initialized tick <= current; b->a: next tick > current
+    const next = aToB
+      ? [...state.ticks].reverse().find((t) => t.tick <= tick)
+      : state.ticks.find((t) => t.tick > tick);
+    const edge = aToB ? state.lowerTick : state.upperTick;
+    const inRange = next && (aToB ? next.tick >= edge : next.tick < edge);
+    const targetTick = inRange ? next!.tick : edge;
+
+    let sqrtTarget = sqrtPriceAtTick(Math.min(Math.max(targetTick, MIN_TICK), MAX_TICK), state.tickMath);
+    if (aToB && sqrtTarget < MIN_SQRT_PRICE_X64) sqrtTarget = MIN_SQRT_PRICE_X64;
+    if (!aToB && sqrtTarget > maxSqrt) sqrtTarget = maxSqrt;
+
+    if (!inRange && sqrt === sqrtTarget) {
+      if (toEdge) break;
+      throw new Error(
+        `swap ran past loaded tick arrays at tick ${edge} (${aToB ? "a->b" : "b->a"}, ${remaining} left)`
+      );
+    }
+
+    const step = computeSwapStep(sqrt, sqrtTarget, liquidity, remaining, state.feePpm, exactIn);
+    if (exactIn) {
+      remaining -= step.amountIn + step.feeAmount;
+      calculated += step.amountOut;
+    } else {
+      remaining -= step.amountOut;
+      calculated += step.amountIn + step.feeAmount;
+    }
+    feeTotal += step.feeAmount;
+    sqrt = step.sqrtNext;
+
+    if (sqrt === sqrtTarget) {
+      if (inRange) {
+        liquidity = aToB ? liquidity - next!.liquidityNet : liquidity + next!.liquidityNet;
+        ticksCrossed++;
+      }
+      tick = aToB ? targetTick - 1 : targetTick;
+    }
+  }
+
+  if (toEdge) return { amountIn: amount - remaining, amountOut: calculated, feeAmount: feeTotal, ticksCrossed, sqrtPriceEnd: sqrt };
+  return exactIn
+    ? { amountIn: amount, amountOut: calculated, feeAmount: feeTotal, ticksCrossed, sqrtPriceEnd: sqrt }
+    : { amountIn: calculated, amountOut: amount, feeAmount: feeTotal, ticksCrossed, sqrtPriceEnd: sqrt };
+}
+
+/** Start ticks of the tick arrays a swap from the state's price to `sqrtPriceEnd` runs through */
+export const arraysCrossed = (state: ClmmState, sqrtPriceEnd: bigint): number[] =>
+  tickArraysBetween(state.tickCurrent, tickAtSqrtPrice(sqrtPriceEnd, state.tickMath), state.tickSpacing, state.arraySpan / state.tickSpacing);
+
+/* ------------------------------- Adapter ---------------------------------- */
+/** Default ±tick arrays loaded around the current one for native quotes */
+export const ENGINE_ARRAYS_EACH_SIDE = 3;
+
+/**
+ * ProbeAdapter that answers quotes with simulateSwap. Pool metadata (mints,
+ * decimals) still comes from `sdk.load()`; the swap state comes from raw accounts
+ * via `sdk.clmmState()`.
+ */
+export function mkEngineAdapter(sdk: ProbeAdapter, arraysEachSide = ENGINE_ARRAYS_EACH_SIDE): ProbeAdapter {
+  if (!sdk.clmmState) throw new Error(`dex=${sdk.dex} has no tick-level state for the native engine`);
+  let info: PoolInfo | null = null;
+  let state: ClmmState | null = null;
+
+  const loaded = () => {
+    if (!info || !state) throw new Error("Engine adapter: call load() first");
+    return { info, state };
+  };
+  const toQuote = (r: SwapResult, state: ClmmState): SwapQuote => ({
+    amountIn: new BN(r.amountIn.toString()),
+    amountOut: new BN(r.amountOut.toString()),
+    feeAmount: new BN(r.feeAmount.toString()),
+    tickArrays: arraysCrossed(state, r.sqrtPriceEnd),
+  });
+
+  return {
+    dex: sdk.dex,
+
+    async load() {
+      info = await sdk.load();
+      state = await sdk.clmmState!(arraysEachSide);
+      return info;
+    },
+
+    midPrice(): Decimal {
+      const { info, state } = loaded();
+      return pxBperA_fromSqrt(state.sqrtPriceX64, info.decA, info.decB);
+    },
+
+    async quoteExactIn(inputMint: string, amountIn: BN): Promise<SwapQuote> {
+      const { info, state } = loaded();
+      return toQuote(simulateSwap(state, BigInt(amountIn.toString()), true, inputMint === info.mintA), state);
+    },
+
+    async quoteExactOut(outputMint: string, amountOut: BN): Promise<SwapQuote> {
+      const { info, state } = loaded();
+      return toQuote(simulateSwap(state, BigInt(amountOut.toString()), false, outputMint === info.mintB), state);
+    },
+
+    clmmState: (n: number) => sdk.clmmState!(n),
+  };
+}
+
+/** Contiguous run of loaded arrays around the current one -> [lowerTick, upperTick) */
+export function coverageFrom(
+  loadedStarts: number[],
+  currentStart: number,
+  span: number
+): { lowerTick: number; upperTick: number } {
+  const have = new Set(loadedStarts);
+  if (!have.has(currentStart)) return { lowerTick: currentStart, upperTick: currentStart };
+  let lo = currentStart;
+  let hi = currentStart;
+  while (have.has(lo - span)) lo -= span;
+  while (have.has(hi + span)) hi += span;
+  return { lowerTick: lo, upperTick: hi + span };
+}
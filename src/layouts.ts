@@ -0,0 +1,254 @@
+/**
+ * Raw account decoders for Orca Whirlpool and Raydium CLMM (anchor layouts,
+ * 8-byte discriminator first) and Pyth price accounts. Only the fields the native
+ * engine and the USD price sources (price_sources.ts) need.
+ * No SDK involved, so these also work on accounts the SDKs refuse to load.
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+
+import type { TickLiquidity } from "./engine.js";
+
+/** Ticks per tick-array account */
+export const WHIRLPOOL_TICK_ARRAY_SIZE = 88;
+export const RAYDIUM_TICK_ARRAY_SIZE = 60;
+
+const TWO_128 = 1n << 128n;
+
+/* ------------------------------- Readers ---------------------------------- */
+const u128 = (b: Buffer, o: number): bigint => b.readBigUInt64LE(o) + (b.readBigUInt64LE(o + 8) << 64n);
+const i128 = (b: Buffer, o: number): bigint => {
+  const v = u128(b, o);
+  return v >= TWO_128 / 2n ? v - TWO_128 : v;
+};
+const pubkey = (b: Buffer, o: number): string => new PublicKey(b.subarray(o, o + 32)).toBase58();
+const i64 = (b: Buffer, o: number): bigint => b.readBigInt64LE(o);
+
+/** Pool fields shared by both layouts */
+export type ClmmPoolAccount = {
+  tickSpacing: number;
+  liquidity: bigint;
+  sqrtPriceX64: bigint;
+  tickCurrent: number;
+  mintA: string;
+  mintB: string;
+  vaultA: string;
+  vaultB: string;
+};
+
+/* ------------------------------- Whirlpool -------------------------------- */
+export type WhirlpoolAccount = ClmmPoolAccount & {
+  whirlpoolsConfig: string;
+  feeRate: number;            // ppm
+  protocolFeeRate: number;    // basis points of fee
+};
+
+export function decodeWhirlpool(data: Buffer): WhirlpoolAccount {
+  return {
+    whirlpoolsConfig: pubkey(data, 8),
+    tickSpacing: data.readUInt16LE(41),
+    feeRate: data.readUInt16LE(45),
+    protocolFeeRate: data.readUInt16LE(47),
+    liquidity: u128(data, 49),
+    sqrtPriceX64: u128(data, 65),
+    tickCurrent: data.readInt32LE(81),
+    mintA: pubkey(data, 101),
+    vaultA: pubkey(data, 133),
+    mintB: pubkey(data, 181),
+    vaultB: pubkey(data, 213),
+  };
+}
+
+/** Tick = { initialized: bool, liquidity_net: i128, liquidity_gross: u128, fee/reward growths } = 113 bytes */
+export function decodeWhirlpoolTickArray(data: Buffer, tickSpacing: number): { startTick: number; ticks: TickLiquidity[] } {
+  const TICK_SIZE = 113;
+  const startTick = data.readInt32LE(8);
+  const ticks: TickLiquidity[] = [];
+  for (let i = 0; i < WHIRLPOOL_TICK_ARRAY_SIZE; i++) {
+    const o = 12 + i * TICK_SIZE;
+    if (data.readUInt8(o) === 0) continue;
+    ticks.push({ tick: startTick + i * tickSpacing, liquidityNet: i128(data, o + 1) });
+  }
+  return { startTick, ticks };
+}
+
+/** PDA seeds: ["tick_array", whirlpool, startTick as decimal string] */
+export function whirlpoolTickArrayPda(programId: PublicKey, pool: PublicKey, startTick: number): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from("tick_array"), pool.toBuffer(), Buffer.from(startTick.toString())],
+    programId
+  )[0];
+}
+
+/* ------------------------------ Raydium CLMM ------------------------------ */
+export type RaydiumPoolAccount = ClmmPoolAccount & {
+  ammConfig: string;
+  decA: number;
+  decB: number;
+};
+
+export function decodeRaydiumPool(data: Buffer): RaydiumPoolAccount {
+  return {
+    ammConfig: pubkey(data, 9),
+    mintA: pubkey(data, 73),
+    mintB: pubkey(data, 105),
+    vaultA: pubkey(data, 137),
+    vaultB: pubkey(data, 169),
+    decA: data.readUInt8(233),
+    decB: data.readUInt8(234),
+    tickSpacing: data.readUInt16LE(235),
+    liquidity: u128(data, 237),
+    sqrtPriceX64: u128(data, 253),
+    tickCurrent: data.readInt32LE(269),
+  };
+}
+
+export type RaydiumAmmConfig = {
+  protocolFeeRate: number;    // ppm of fee
+  tradeFeeRate: number;       // ppm
+  tickSpacing: number;
+};
+
+export function decodeRaydiumAmmConfig(data: Buffer): RaydiumAmmConfig {
+  return {
+    protocolFeeRate: data.readUInt32LE(43),
+    tradeFeeRate: data.readUInt32LE(47),
+    tickSpacing: data.readUInt16LE(51),
+  };
+}
+
+/** PDA seeds: ["pool", ammConfig, mint0, mint1]; the program requires mint0 < mint1 */
+export function raydiumPoolPda(programId: PublicKey, ammConfig: PublicKey, mint0: PublicKey, mint1: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from("pool"), ammConfig.toBuffer(), mint0.toBuffer(), mint1.toBuffer()],
+    programId
+  )[0];
+}
+
+/** TickState = { tick: i32, liquidity_net: i128, liquidity_gross: u128, growths, padding } = 168 bytes */
+export function decodeRaydiumTickArray(data: Buffer): { startTick: number; ticks: TickLiquidity[] } {
+  const TICK_SIZE = 168;
+  const startTick = data.readInt32LE(40);
+  const ticks: TickLiquidity[] = [];
+  for (let i = 0; i < RAYDIUM_TICK_ARRAY_SIZE; i++) {
+    const o = 44 + i * TICK_SIZE;
+    if (u128(data, o + 20) === 0n) continue; // liquidity_gross == 0 -> uninitialized
+    ticks.push({ tick: data.readInt32LE(o), liquidityNet: i128(data, o + 4) });
+  }
+  return { startTick, ticks };
+}
+
+/** PDA seeds: ["tick_array", pool, startTick as i32 big-endian] */
+export function raydiumTickArrayPda(programId: PublicKey, pool: PublicKey, startTick: number): PublicKey {
+  const be = Buffer.alloc(4);
+  be.writeInt32BE(startTick);
+  return PublicKey.findProgramAddressSync([Buffer.from("tick_array"), pool.toBuffer(), be], programId)[0];
+}
+
+/** First tick of the array holding `tick` */
+export const tickArrayStart = (tick: number, tickSpacing: number, arraySize: number): number => {
+  const span = tickSpacing * arraySize;
+  return Math.floor(tick / span) * span;
+};
+
+/** Start ticks of the arrays a price move from `fromTick` to `toTick` runs through, in swap order */
+export function tickArraysBetween(fromTick: number, toTick: number, tickSpacing: number, arraySize: number): number[] {
+  const span = tickSpacing * arraySize;
+  const from = tickArrayStart(fromTick, tickSpacing, arraySize);
+  const to = tickArrayStart(toTick, tickSpacing, arraySize);
+  const step = to >= from ? span : -span;
+  const starts: number[] = [];
+  for (let s = from; step > 0 ? s <= to : s >= to; s += step) starts.push(s);
+  return starts;
+}
+
+/** Start ticks of the array holding `tickCurrent` and ±n arrays around it, lowest first */
+export function tickArrayStarts(tickCurrent: number, tickSpacing: number, arraySize: number, arraysEachSide: number): number[] {
+  const span = tickSpacing * arraySize;
+  const currentStart = tickArrayStart(tickCurrent, tickSpacing, arraySize);
+  const starts: number[] = [];
+  for (let i = -arraysEachSide; i <= arraysEachSide; i++) starts.push(currentStart + i * span);
+  return starts;
+}
+
+/**
+ * Fetch ±n tick arrays around the one holding `tickCurrent` in one
+ * getMultipleAccountsInfo call. Missing accounts are left out of `loadedStarts` and
+ * listed in `missingStarts` (tick arrays only exist once a position initializes a tick in them).
+ */
+export async function fetchTickArrays(
+  conn: Connection,
+  tickCurrent: number,
+  tickSpacing: number,
+  arraySize: number,
+  arraysEachSide: number,
+  pda: (startTick: number) => PublicKey,
+  decode: (data: Buffer) => { startTick: number; ticks: TickLiquidity[] }
+): Promise<{ currentStart: number; span: number; loadedStarts: number[]; missingStarts: number[]; ticks: TickLiquidity[] }> {
+  const span = tickSpacing * arraySize;
+  const currentStart = tickArrayStart(tickCurrent, tickSpacing, arraySize);
+  const starts = tickArrayStarts(tickCurrent, tickSpacing, arraySize, arraysEachSide);
+
+  const accounts = await conn.getMultipleAccountsInfo(starts.map(pda));
+  const loadedStarts: number[] = [];
+  const missingStarts: number[] = [];
+  const ticks: TickLiquidity[] = [];
+  accounts.forEach((acc, i) => {
+    if (!acc) {
+      missingStarts.push(starts[i]);
+      return;
+    }
+    loadedStarts.push(starts[i]);
+    ticks.push(...decode(acc.data).ticks);
+  });
+  ticks.sort((a, b) => a.tick - b.tick);
+  return { currentStart, span, loadedStarts, missingStarts, ticks };
+}
+
+/* ---------------------------------- Pyth ---------------------------------- */
+/** Pyth receiver PriceUpdateV2 (pull oracle); the legacy push account starts with PYTH_MAGIC instead */
+const PRICE_UPDATE_V2_DISCRIMINATOR = Buffer.from([34, 241, 35, 99, 157, 126, 244, 205]);
+const PYTH_MAGIC = 0xa1b2c3d4;
+const PYTH_STATUS_TRADING = 1;
+
+/** Aggregate price = price × 10^expo, ± conf × 10^expo */
+export type PythPriceAccount = {
+  layout: "price_update_v2" | "legacy";
+  price: bigint;
+  conf: bigint;
+  expo: number;
+  publishTime: number;        // unix seconds
+  slot: number;               // posted slot (v2) / slot of the aggregate (legacy)
+  usable: boolean;            // v2: fully verified; legacy: status Trading
+};
+
+/**
+ * PriceUpdateV2 = { write_authority, verification_level: Partial{u8} | Full, price_message:
+ * { feed_id, price, conf, exponent, publish_time, prev_publish_time, ema_price, ema_conf }, posted_slot }.
+ * Legacy PriceAccount: aggregate { price, conf, status, corp_act, pub_slot } at 208, timestamp at 96.
+ */
+export function decodePythPrice(data: Buffer): PythPriceAccount {
+  if (data.length >= 240 && data.readUInt32LE(0) === PYTH_MAGIC) {
+    return {
+      layout: "legacy",
+      price: i64(data, 208),
+      conf: data.readBigUInt64LE(216),
+      expo: data.readInt32LE(20),
+      publishTime: Number(i64(data, 96)),
+      slot: Number(data.readBigUInt64LE(232)),
+      usable: data.readUInt32LE(224) === PYTH_STATUS_TRADING,
+    };
+  }
+  if (!data.subarray(0, 8).equals(PRICE_UPDATE_V2_DISCRIMINATOR)) throw new Error("not a Pyth price account");
+  const full = data.readUInt8(40) === 1;
+  const m = full ? 41 : 42;     // Partial carries num_signatures
+  return {
+    layout: "price_update_v2",
+    price: i64(data, m + 32),
+    conf: data.readBigUInt64LE(m + 40),
+    expo: data.readInt32LE(m + 48),
+    publishTime: Number(i64(data, m + 52)),
+    slot: Number(data.readBigUInt64LE(m + 84)),
+    usable: full,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Run manifests: one JSON line per run_id (--manifest, default data/runs.jsonl) saying
+ * what produced the rows of that run: command line, SDK versions, RPC hosts
+ * and the run's RPC stats. Rows carry the run_id; join on it.
+ * URLs are cut down to scheme and host everywhere: RPC paths and queries often hold API keys.
+ */
+
+import fs from "fs";
+import path from "path";
+
+import type { RpcStats } from "./rpc.js";
+import { percentile } from "./utils.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type RunManifest = {
+  run_id: string;
+  command: string;            // probe | batch | compare | split | depth
+  args: string[];             // command line after the script, URLs redacted
+  started_utc: string;
+  finished_utc: string;
+  node_version: string;
+  sdk_versions: Record<string, string>;   // package.json dependencies (pinned, so what runs)
+  rpc_hosts: string[];        // primary first; empty when replaying a snapshot
+  rpc?: {
+    requests: number;
+    calls: Record<string, number>;
+    retries: number;
+    failovers: number;
+    failures: number;
+    latency_p50_ms: number | null;
+    latency_p95_ms: number | null;
+  };
+};
+
+export const DEFAULT_MANIFEST = "data/runs.jsonl";
+
+/* -------------------------------- Helpers ---------------------------------- */
+/** "https://rpc.example/abc?api-key=k" -> "https://rpc.example" */
+export const redactUrl = (url: string): string => {
+  try {
+    const u = new URL(url);
+    return `${u.protocol}//${u.host}`;
+  } catch {
+    return url;
+  }
+};
+
+/** Every URL inside an argument redacted (also `--rpc a,b` lists and `--rpc=url`) */
+const redactArg = (arg: string): string => arg.replace(/\b(?:https?|wss?):\/\/[^\s,]+/g, redactUrl);
+
+let pkg: { dependencies?: Record<string, string> } | undefined;
+
+/** This package's package.json (dist/.. or src/..); empty when not found */
+function packageJson(): { dependencies?: Record<string, string> } {
+  if (!pkg) {
+    try {
+      pkg = JSON.parse(fs.readFileSync(new URL("../package.json", import.meta.url), "utf8"));
+    } catch {
+      pkg = {};
+    }
+  }
+  return pkg!;
+}
+
+/* --------------------------------- Writer ---------------------------------- */
+/** The manifest of one run, from its start time, endpoints and RPC stats */
+export function mkManifest(o: {
+  runId: string;
+  command: string;
+  started: Date;
+  endpoints: string[];
+  stats?: RpcStats;
+}): RunManifest {
+  const { dependencies = {} } = packageJson();
+  const s = o.stats;
+  const lat = [...(s?.latenciesMs ?? [])].sort((a, b) => a - b);
+  const ms = (p: number) => (lat.length ? Math.round(percentile(lat, p)) : null);
+  return {
+    run_id: o.runId,
+    command: o.command,
+    args: process.argv.slice(2).map(redactArg),
+    started_utc: o.started.toISOString(),
+    finished_utc: new Date().toISOString(),
+    node_version: process.version,
+    sdk_versions: dependencies,
+    rpc_hosts: o.endpoints.map(redactUrl),
+    rpc: s && {
+      requests: s.requests,
+      calls: s.calls,
+      retries: s.retries,
+      failovers: s.failovers,
+      failures: s.failures,
+      latency_p50_ms: ms(0.5),
+      latency_p95_ms: ms(0.95),
+    },
+  };
+}
+
+/** Append one manifest line to `file` */
+export function appendManifest(file: string, m: RunManifest): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(m) + "\n");
+}
@@ -0,0 +1,314 @@
+/**
+ * `clamm merge`: read roundtrip output from every probe generation, reconcile their
+ * layouts into one row shape, drop duplicates, and roll them up per pool and size bucket.
+ * Inputs are CSV, or the JSONL / SQLite of `--out` (same columns as the clamm CSV).
+ * Layouts (told apart by their header line, which old probes repeated on every run):
+ * - orca_v0     baseline orca_probe: size_unit/size_value; error rows lack the 3 base columns
+ * - raydium_v0  baseline raydium_probe: USD sizes in usd_notional, no unit columns
+ * - clamm       clamm probe/batch (csvHeader in probe.ts), with run_id
+ */
+
+import fs from "fs";
+
+import { parseCsv } from "./csv.js";
+import { sinkKind } from "./sink.js";
+import { percentile } from "./utils.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type Layout = "orca_v0" | "raydium_v0" | "clamm";
+
+/** One roundtrip, whatever layout it came from. Error rows have NaN bps. */
+export type MergedRow = {
+  ts: string;                 // ISO UTC, as written
+  dex: string;
+  pool: string;
+  baseMint: string;
+  quoteMint: string;
+  sizeUnit: string;
+  size: number;
+  rtBps: number;
+  buyBps: number;             // one-sided vs mid; derived from the prices for layouts without the columns
+  sellBps: number;
+  feeBps: number;
+  impactBps: number;
+  priceUnit: string;          // unit of the three prices below
+  mid: number;
+  buyPx: number;
+  sellPx: number;
+  error: boolean;
+  runId: string;              // "" before run ids existed
+  layout: Layout;
+  file: string;
+};
+
+/** foreign: rows under a header that is not a roundtrip layout (target, compare, ... CSVs) */
+export type ReadStats = { rows: number; malformed: number; foreign: number; byLayout: Record<Layout, number> };
+
+export const emptyReadStats = (): ReadStats =>
+  ({ rows: 0, malformed: 0, foreign: 0, byLayout: { orca_v0: 0, raydium_v0: 0, clamm: 0 } });
+
+/** day: UTC date; hour: UTC hour; tod: hour of day (0-23) across all days */
+export type RollupPeriod = "day" | "hour" | "tod";
+export const ROLLUP_PERIODS: readonly RollupPeriod[] = ["day", "hour", "tod"];
+
+export type RollupRow = {
+  period: RollupPeriod;
+  bucket: string;             // 2024-05-01 | 2024-05-01T13 | 13
+  dex: string;
+  pool: string;
+  baseMint: string;
+  quoteMint: string;
+  sizeUnit: string;
+  sizeBucket: number;
+  n: number;
+  errors: number;
+  errorRate: number;
+  rt: [number, number, number];      // p10, median, p90
+  impact: [number, number, number];
+  buy: [number, number, number];
+  sell: [number, number, number];
+};
+
+/* -------------------------------- Reading --------------------------------- */
+function layoutOf(header: string[]): Layout {
+  if (header.includes("usd_notional")) return "raydium_v0";
+  return header.includes("run_id") ? "clamm" : "orca_v0";
+}
+
+const num = (s: string | undefined): number => (s === undefined || s === "" ? Number.NaN : Number(s));
+
+/**
+ * Rows of one file, as lines of cells. Any line starting with `ts_utc` is a header and
+ * switches the layout from there on; rows that fit no header are counted as malformed.
+ */
+function readRows(file: string, lines: Iterable<string[]>, stats: ReadStats): MergedRow[] {
+  const out: MergedRow[] = [];
+  let header: string[] | null = null;
+  let foreign = false;
+  let layout: Layout = "clamm";
+  let col: Record<string, number> = {};
+
+  for (let cells of lines) {
+    if (cells[0] === "ts_utc") {
+      foreign = !cells.includes("roundtrip_bps");
+      header = cells;
+      layout = layoutOf(cells);
+      col = Object.fromEntries(cells.map((c, i) => [c, i]));
+      continue;
+    }
+    if (!header || foreign) {
+      if (foreign) stats.foreign++;
+      else stats.malformed++;
+      continue;
+    }
+    // orca_v0 error rows skipped base_mint/base_decimals/base_symbol: put them back
+    if (layout === "orca_v0" && cells.length === header.length - 3) {
+      const [mintA, mintB, quote] = [cells[col.mintA], cells[col.mintB], cells[col.base_mint]];
+      const base = quote === mintA ? mintB : mintA;
+      cells = [...cells.slice(0, col.base_mint), base, "", "", ...cells.slice(col.base_mint)];
+    }
+    if (cells.length !== header.length) {
+      stats.malformed++;
+      continue;
+    }
+
+    const get = (name: string) => cells[col[name]];
+    const rtBps = num(get("roundtrip_bps"));
+    const priceUnit = layout === "raydium_v0" ? "usd" : get("price_unit");
+    const mid = num(get(`mid_${priceUnit}_per_base`));
+    const buyPx = num(get(`buy_px_${priceUnit}_per_base`));
+    const sellPx = num(get(`sell_px_${priceUnit}_per_base`));
+    const oneSided = (name: string, derived: number) => (name in col ? num(get(name)) : derived);
+    out.push({
+      ts: get("ts_utc"),
+      dex: get("dex"),
+      pool: get("pool"),
+      baseMint: get("base_mint"),
+      quoteMint: get("quote_mint"),
+      sizeUnit: layout === "raydium_v0" ? "usd" : get("size_unit"),
+      size: num(layout === "raydium_v0" ? get("usd_notional") : get("size_value")),
+      rtBps,
+      buyBps: oneSided("buy_bps_vs_mid", ((buyPx - mid) / mid) * 1e4),
+      sellBps: oneSided("sell_bps_vs_mid", ((mid - sellPx) / mid) * 1e4),
+      feeBps: num(get("fee_bps_total")),
+      impactBps: num(get("impact_bps_total")),
+      priceUnit,
+      mid,
+      buyPx,
+      sellPx,
+      error: !Number.isFinite(rtBps),
+      runId: layout === "clamm" ? get("run_id") : "",
+      layout,
+      file,
+    });
+    stats.rows++;
+    stats.byLayout[layout]++;
+  }
+  return out;
+}
+
+export function readRoundtripCsv(file: string, stats: ReadStats): MergedRow[] {
+  return readRows(file, parseCsv(fs.readFileSync(file, "utf8")), stats);
+}
+
+/** Records as cell lines, with a header line wherever the keys change (NaN was written as null) */
+function* asLines(records: Iterable<Record<string, unknown>>): Iterable<string[]> {
+  let keys = "";
+  for (const rec of records) {
+    const k = Object.keys(rec);
+    if (k.join(",") !== keys) {
+      keys = k.join(",");
+      yield k;
+    }
+    yield Object.values(rec).map((v) => (v === null || v === undefined ? "" : String(v)));
+  }
+}
+
+function* jsonlRecords(file: string, stats: ReadStats): Iterable<Record<string, unknown>> {
+  for (const line of fs.readFileSync(file, "utf8").split(/\r?\n/)) {
+    if (line.trim() === "") continue;
+    try {
+      yield JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      stats.malformed++;
+    }
+  }
+}
+
+/** Roundtrip rows of a CSV, JSONL or SQLite (`roundtrip` table) file, by extension */
+export async function readRoundtrip(file: string, stats: ReadStats): Promise<MergedRow[]> {
+  switch (sinkKind(file)) {
+    case "csv": return readRoundtripCsv(file, stats);
+    case "jsonl": return readRows(file, asLines(jsonlRecords(file, stats)), stats);
+    case "sqlite": {
+      const { default: Database } = await import("better-sqlite3");
+      const db = new Database(file, { readonly: true, fileMustExist: true });
+      try {
+        const table = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'roundtrip'`).get();
+        if (!table) throw new Error(`${file}: no roundtrip table`);
+        return readRows(file, asLines(db.prepare(`SELECT * FROM "roundtrip"`).iterate() as Iterable<Record<string, unknown>>), stats);
+      } finally {
+        db.close();
+      }
+    }
+  }
+}
+
+/** Same pool, same size, same timestamp: keep the first seen */
+export function dedupe(rows: MergedRow[]): MergedRow[] {
+  const seen = new Set<string>();
+  return rows.filter((r) => {
+    const key = [r.dex, r.pool, r.ts, r.sizeUnit, r.size].join("|");
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/* -------------------------------- Rollups --------------------------------- */
+function periodBucket(ts: string, period: RollupPeriod): string {
+  const iso = new Date(ts).toISOString();
+  if (period === "day") return iso.slice(0, 10);
+  if (period === "hour") return iso.slice(0, 13);
+  return iso.slice(11, 13);
+}
+
+/** Largest bucket edge <= size; without edges every size is its own bucket */
+function sizeBucket(size: number, edges: number[]): number {
+  let b = edges.length ? Number.NaN : size;
+  for (const e of edges) if (e <= size) b = e;
+  return b;
+}
+
+export function rollup(rows: MergedRow[], period: RollupPeriod, edges: number[] = []): RollupRow[] {
+  const sortedEdges = [...edges].sort((a, b) => a - b);
+  const groups = new Map<string, { head: Omit<RollupRow, "n" | "errors" | "errorRate" | "rt" | "impact" | "buy" | "sell">; rows: MergedRow[] }>();
+
+  for (const r of rows) {
+    if (Number.isNaN(new Date(r.ts).getTime())) continue;
+    const bucket = periodBucket(r.ts, period);
+    const sb = sizeBucket(r.size, sortedEdges);
+    if (!Number.isFinite(sb)) continue;
+    const key = [bucket, r.dex, r.pool, r.baseMint, r.quoteMint, r.sizeUnit, sb].join("|");
+    let g = groups.get(key);
+    if (!g) {
+      g = {
+        head: { period, bucket, dex: r.dex, pool: r.pool, baseMint: r.baseMint, quoteMint: r.quoteMint, sizeUnit: r.sizeUnit, sizeBucket: sb },
+        rows: [],
+      };
+      groups.set(key, g);
+    }
+    g.rows.push(r);
+  }
+
+  const stats = (xs: number[]): [number, number, number] => {
+    const s = xs.filter(Number.isFinite).sort((a, b) => a - b);
+    return [percentile(s, 0.1), percentile(s, 0.5), percentile(s, 0.9)];
+  };
+
+  return [...groups.values()]
+    .map(({ head, rows: rs }) => {
+      const ok = rs.filter((r) => !r.error);
+      const errors = rs.length - ok.length;
+      return {
+        ...head,
+        n: rs.length,
+        errors,
+        errorRate: errors / rs.length,
+        rt: stats(ok.map((r) => r.rtBps)),
+        impact: stats(ok.map((r) => r.impactBps)),
+        buy: stats(ok.map((r) => r.buyBps)),
+        sell: stats(ok.map((r) => r.sellBps)),
+      };
+    })
+    .sort((a, b) =>
+      a.bucket.localeCompare(b.bucket) || a.dex.localeCompare(b.dex) || a.pool.localeCompare(b.pool) || a.sizeBucket - b.sizeBucket);
+}
+
+/* --------------------------------- Output --------------------------------- */
+export function mergedCsvHeader(): string[] {
+  return [
+    "ts_utc", "dex", "pool", "base_mint", "quote_mint", "size_unit", "size_value",
+    "roundtrip_bps", "fee_bps_total", "impact_bps_total", "buy_bps_vs_mid", "sell_bps_vs_mid",
+    "error", "run_id", "layout", "source_file",
+  ];
+}
+
+export const mergedCsvRow = (r: MergedRow): Array<string | number> => [
+  r.ts, r.dex, r.pool, r.baseMint, r.quoteMint, r.sizeUnit, r.size,
+  r.rtBps, r.feeBps, r.impactBps, r.buyBps, r.sellBps,
+  r.error ? 1 : 0, r.runId, r.layout, r.file,
+];
+
+export function rollupCsvHeader(): string[] {
+  return [
+    "ts_utc", "run_id", "period", "bucket",
+    "dex", "pool", "base_mint", "quote_mint", "size_unit", "size_bucket",
+    "n", "errors", "error_rate",
+    "rt_p10_bps", "rt_median_bps", "rt_p90_bps",
+    "impact_p10_bps", "impact_median_bps", "impact_p90_bps",
+    "buy_p10_bps", "buy_median_bps", "buy_p90_bps",
+    "sell_p10_bps", "sell_median_bps", "sell_p90_bps",
+  ];
+}
+
+export function rollupCsvRow(r: RollupRow, ctx: { runId: string }): Array<string | number> {
+  return [
+    new Date().toISOString(), ctx.runId, r.period, r.bucket,
+    r.dex, r.pool, r.baseMint, r.quoteMint, r.sizeUnit, r.sizeBucket,
+    r.n, r.errors, r.errorRate,
+    ...r.rt, ...r.impact, ...r.buy, ...r.sell,
+  ];
+}
+
+/** Console table for one period: median/p10/p90 roundtrip, median impact and one-sided bps, error rate */
+export function printRollup(rows: RollupRow[]): void {
+  for (const r of rows) {
+    const pool = `${r.dex}:${r.pool.slice(0, 6)}…`;
+    console.log(
+      `  ${r.bucket.padEnd(13)} ${pool.padEnd(16)} ${String(r.sizeBucket).padStart(10)} ${r.sizeUnit.padEnd(5)} ` +
+      `n=${String(r.n).padStart(4)}  rt=${r.rt[1].toFixed(2)} [${r.rt[0].toFixed(2)}, ${r.rt[2].toFixed(2)}]bps  ` +
+      `impact=${r.impact[1].toFixed(2)}bps  buy/sell=${r.buy[1].toFixed(2)}/${r.sell[1].toFixed(2)}bps  err=${(r.errorRate * 100).toFixed(1)}%`
+    );
+  }
+}
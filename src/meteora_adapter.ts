@@ -0,0 +1,110 @@
+/**
+ * Meteora DLMM adapter for the probe (single pool, RPC-only, no routing).
+ * - Liquidity sits in discrete bins: price(bin) = (1 + binStep/1e4)^binId (Y per X, raw units)
+ * - Fee = base fee + variable fee; the variable part grows with the volatility
+ *   accumulator while a swap crosses bins, so the per-size fee comes from the quote itself.
+ * Token X maps to mintA and token Y to mintB.
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+import Decimal from "decimal.js";
+import DLMM from "@meteora-ag/dlmm";
+
+import type { PoolInfo, ProbeAdapter, SwapQuote, WatchedAccount } from "./adapter.js";
+import { Q64 } from "./utils.js";
+
+/** Bin arrays fetched per swap direction (each holds 70 bins) */
+const BIN_ARRAYS_PER_SIDE = 4;
+
+/** "0.25" (percent, Decimal|string|number) -> 2500 ppm */
+const pctToPpm = (pct: unknown): number => Math.round(Number(String(pct ?? 0)) * 10_000);
+
+export function mkMeteoraAdapter(conn: Connection, poolAddress: string): ProbeAdapter {
+  const zeroSlip = new BN(0);
+  let dlmm: any = null;
+  let info: PoolInfo | null = null;
+  let binArraysForY: any[] = [];   // X -> Y (swapForY = true)
+  let binArraysForX: any[] = [];   // Y -> X
+
+  const loaded = () => {
+    if (!dlmm || !info) throw new Error("Meteora adapter: call load() first");
+    return { dlmm, info };
+  };
+
+  /** Raw-unit price of a bin: Y per X */
+  const binPrice = (binStep: number, binId: number): Decimal =>
+    new Decimal(1).add(new Decimal(binStep).div(10_000)).pow(binId);
+
+  return {
+    dex: "meteora",
+
+    async load() {
+      // Reloads (watch mode) refresh the same DLMM instance instead of rebuilding it
+      if (dlmm) await dlmm.refetchStates();
+      else dlmm = await DLMM.create(conn as any, new PublicKey(poolAddress));
+      const lb = dlmm.lbPair;
+      const binStep = Number(lb.binStep);
+      const activeId = Number(lb.activeId);
+
+      const feeInfo = dlmm.getFeeInfo();
+      const baseFeePpm = pctToPpm(feeInfo.baseFeeRatePercentage);
+      const totalFeePpm = pctToPpm(dlmm.getDynamicFee()); // base + current variable fee
+
+      binArraysForY = await dlmm.getBinArrayForSwap(true, BIN_ARRAYS_PER_SIDE);
+      binArraysForX = await dlmm.getBinArrayForSwap(false, BIN_ARRAYS_PER_SIDE);
+
+      // No sqrt price on-chain; express the active bin price as Q64.64 sqrt for the CSV columns
+      const sqrtX64 = binPrice(binStep, activeId).sqrt().mul(new Decimal(String(Q64))).toFixed(0);
+
+      info = {
+        dex: "meteora",
+        pool: poolAddress,
+        programId: dlmm.program?.programId?.toBase58?.() ?? "UNKNOWN",
+        tickSpacing: binStep,                  // bin step (bps per bin)
+        feePpm: baseFeePpm,
+        variableFeePpm: Math.max(totalFeePpm - baseFeePpm, 0),
+        dynamicFee: true,
+        protocolFeePpm: pctToPpm(feeInfo.protocolFeePercentage),
+        liquidity: new BN(0),                  // no single L in a DLMM
+        sqrtPriceX64: new BN(sqrtX64),
+        tickCurrent: activeId,                 // active bin id
+        mintA: dlmm.tokenX.publicKey.toBase58(), decA: Number(dlmm.tokenX.decimal),
+        mintB: dlmm.tokenY.publicKey.toBase58(), decB: Number(dlmm.tokenY.decimal),
+      };
+      return info;
+    },
+
+    midPrice(): Decimal {
+      const { dlmm, info } = loaded();
+      return binPrice(Number(dlmm.lbPair.binStep), info.tickCurrent).mul(Decimal.pow(10, info.decA - info.decB));
+    },
+
+    async quoteExactIn(inputMint: string, amountIn: BN): Promise<SwapQuote> {
+      const { dlmm, info } = loaded();
+      const swapForY = inputMint === info.mintA;
+      const q = dlmm.swapQuote(amountIn, swapForY, zeroSlip, swapForY ? binArraysForY : binArraysForX);
+      if (q.consumedInAmount && BigInt(q.consumedInAmount.toString()) !== BigInt(amountIn.toString())) {
+        throw new Error("DLMM quote filled partially (ran out of loaded bins)");
+      }
+      return { amountIn, amountOut: q.outAmount, feeAmount: q.fee };
+    },
+
+    async quoteExactOut(outputMint: string, amountOut: BN): Promise<SwapQuote> {
+      const { dlmm, info } = loaded();
+      const swapForY = outputMint === info.mintB;
+      const q = dlmm.swapQuoteExactOut(amountOut, swapForY, zeroSlip, swapForY ? binArraysForY : binArraysForX);
+      return { amountIn: q.inAmount, amountOut: q.outAmount ?? amountOut, feeAmount: q.fee };
+    },
+
+    // The bin arrays the quotes use (BIN_ARRAYS_PER_SIDE each way); `arraysEachSide` does not apply
+    watchAccounts(): WatchedAccount[] {
+      loaded();
+      const bins = [...binArraysForY, ...binArraysForX].map((b: any) => b.publicKey.toBase58() as string);
+      return [
+        { pubkey: poolAddress, kind: "pool" as const },
+        ...[...new Set(bins)].map((pubkey) => ({ pubkey, kind: "bin_array" as const })),
+      ];
+    },
+  };
+}
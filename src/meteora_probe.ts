@@ -0,0 +1,13 @@
+/**
+ * Meteora DLMM spread probe: BUY exact-in / SELL exact-out roundtrips on one LB pair.
+ * Same as `clamm probe --dex meteora ...`.
+ */
+import { hideBin } from "yargs/helpers";
+import { runCli } from "./cli.js";
+
+try {
+  await runCli(["probe", "--dex", "meteora", ...hideBin(process.argv)]);
+} catch (e: unknown) {
+  console.error(`Fatal: ${e instanceof Error ? e.message : String(e)}`);
+  process.exit(1);
+}
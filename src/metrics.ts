@@ -0,0 +1,179 @@
+/**
+ * Prometheus exposition (`--metricsPort`): the latest probe of every pool as gauges,
+ * served at GET /metrics while --watch / --subscribe keep the process alive.
+ * - Gauges per dex/pool/size: roundtrip_bps, impact_bps (NaN when that size failed)
+ * - Gauges per dex/pool: mid price, pool liquidity, time of the last probe
+ * - Counters: failed quotes per size, failed probes per pool, RPC calls per method
+ * - Histograms per dex: probe latency and RPC calls per probe
+ * RPC calls are counted by the Connection's fetchMiddleware (one per JSON-RPC request).
+ */
+
+import http from "http";
+import type { FetchMiddleware } from "@solana/web3.js";
+
+import type { ProbeResult } from "./probe.js";
+
+/* -------------------------------- Types ---------------------------------- */
+type Labels = Record<string, string>;
+
+type Series = { labels: Labels; value: number };
+
+type Histogram = { labels: Labels; buckets: number[]; counts: number[]; sum: number; count: number };
+
+type Family = {
+  help: string;
+  type: "gauge" | "counter" | "histogram";
+  series: Map<string, Series | Histogram>;
+};
+
+export type Metrics = {
+  /** Time one probe, count its RPC calls and publish its rows; failures are counted and rethrown */
+  meter: <T extends ProbeResult>(dex: string, pool: string, probe: () => Promise<T>) => Promise<T>;
+  /** Pass to `new Connection(rpc, { fetchMiddleware })` so RPC calls are counted */
+  fetchMiddleware: FetchMiddleware;
+  render: () => string;
+  /** Serve GET /metrics on `port`; resolves once listening, with the closer */
+  serve: (port: number) => Promise<() => Promise<void>>;
+};
+
+const LATENCY_BUCKETS_SEC = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+const RPC_CALL_BUCKETS = [1, 2, 5, 10, 20, 50, 100, 200];
+
+/* -------------------------------- Format ---------------------------------- */
+const escapeLabel = (v: string) => v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function labelText(labels: Labels, extra?: [string, string]): string {
+  const all = Object.entries(labels);
+  if (extra) all.push(extra);
+  return all.length ? `{${all.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}` : "";
+}
+
+const num = (x: number) => (Number.isNaN(x) ? "NaN" : Number.isFinite(x) ? String(x) : x > 0 ? "+Inf" : "-Inf");
+
+/** Method names of a JSON-RPC request body (a batch holds several) */
+export function rpcMethods(body: unknown): string[] {
+  if (typeof body !== "string") return ["unknown"];
+  try {
+    const parsed = JSON.parse(body) as { method?: string } | Array<{ method?: string }>;
+    return (Array.isArray(parsed) ? parsed : [parsed]).map((r) => r.method ?? "unknown");
+  } catch {
+    return ["unknown"];
+  }
+}
+
+/* -------------------------------- Registry -------------------------------- */
+export function mkMetrics(): Metrics {
+  const families = new Map<string, Family>();
+  let rpcCalls = 0;
+
+  const family = (name: string, type: Family["type"], help: string): Family => {
+    let f = families.get(name);
+    if (!f) {
+      f = { help, type, series: new Map() };
+      families.set(name, f);
+    }
+    return f;
+  };
+  const key = (labels: Labels) => JSON.stringify(labels);
+
+  const set = (name: string, help: string, labels: Labels, value: number) =>
+    family(name, "gauge", help).series.set(key(labels), { labels, value });
+
+  const inc = (name: string, help: string, labels: Labels, by = 1) => {
+    const s = family(name, "counter", help).series;
+    const cur = s.get(key(labels)) as Series | undefined;
+    s.set(key(labels), { labels, value: (cur?.value ?? 0) + by });
+  };
+
+  const observe = (name: string, help: string, buckets: number[], labels: Labels, value: number) => {
+    const s = family(name, "histogram", help).series;
+    let h = s.get(key(labels)) as Histogram | undefined;
+    if (!h) {
+      h = { labels, buckets, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      s.set(key(labels), h);
+    }
+    buckets.forEach((b, i) => { if (value <= b) h!.counts[i]++; });
+    h.sum += value;
+    h.count++;
+  };
+
+  const publish = (dex: string, pool: string, r: ProbeResult) => {
+    const poolLabels = { dex, pool };
+    for (const row of r.rows) {
+      const labels = { dex, pool, size: String(row.size), size_unit: r.sizeUnit };
+      set("clamm_roundtrip_bps", "Latest roundtrip spread (buy vs sell, fees included), bps of mid", labels, row.rtBps);
+      set("clamm_impact_bps", "Latest roundtrip price impact (roundtrip minus fees), bps of mid", labels, row.impactBps);
+      for (const [side, bps] of [["buy", row.buyBps], ["sell", row.sellBps]] as const) {
+        set("clamm_side_bps", "Latest one-sided cost vs mid (BUY exact-in, SELL exact-out on QUOTE), bps", { ...labels, side }, bps);
+      }
+      if (row.error) inc("clamm_quote_errors_total", "Quotes that failed, per size", labels);
+    }
+    const mid = r.rows.find((row) => Number.isFinite(row.mid))?.mid;
+    if (mid !== undefined) set("clamm_mid_price", "Latest mid, BASE priced in price_unit", { ...poolLabels, price_unit: r.priceUnit }, mid);
+    set("clamm_pool_liquidity", "Active pool liquidity (u128, as a float)", poolLabels, Number(r.info.liquidity.toString()));
+    set("clamm_last_probe_timestamp_seconds", "Unix time of the latest successful probe", poolLabels, Date.now() / 1000);
+  };
+
+  const meter: Metrics["meter"] = async (dex, pool, probe) => {
+    const started = process.hrtime.bigint();
+    const callsBefore = rpcCalls;
+    try {
+      const r = await probe();
+      publish(dex, pool, r);
+      return r;
+    } catch (e: unknown) {
+      inc("clamm_probe_failures_total", "Probes that failed as a whole (pool not loaded, no USD rate, ...)", { dex, pool });
+      throw e;
+    } finally {
+      const sec = Number(process.hrtime.bigint() - started) / 1e9;
+      observe("clamm_probe_duration_seconds", "Wall time of one probe (all sizes)", LATENCY_BUCKETS_SEC, { dex }, sec);
+      observe("clamm_probe_rpc_calls", "RPC requests made by one probe", RPC_CALL_BUCKETS, { dex }, rpcCalls - callsBefore);
+    }
+  };
+
+  const fetchMiddleware: FetchMiddleware = (info, init, fetch) => {
+    for (const method of rpcMethods(init?.body)) {
+      rpcCalls++;
+      inc("clamm_rpc_calls_total", "JSON-RPC requests sent, per method", { method });
+    }
+    fetch(info, init);
+  };
+
+  const render = () => {
+    const lines: string[] = [];
+    for (const [name, f] of families) {
+      lines.push(`# HELP ${name} ${f.help}`, `# TYPE ${name} ${f.type}`);
+      for (const s of f.series.values()) {
+        if ("buckets" in s) {
+          s.buckets.forEach((b, i) => lines.push(`${name}_bucket${labelText(s.labels, ["le", String(b)])} ${s.counts[i]}`));
+          lines.push(`${name}_bucket${labelText(s.labels, ["le", "+Inf"])} ${s.count}`);
+          lines.push(`${name}_sum${labelText(s.labels)} ${num(s.sum)}`, `${name}_count${labelText(s.labels)} ${s.count}`);
+        } else {
+          lines.push(`${name}${labelText(s.labels)} ${num(s.value)}`);
+        }
+      }
+    }
+    return lines.join("\n") + "\n";
+  };
+
+  const serve = async (port: number) => {
+    const server = http.createServer((req, res) => {
+      if (req.method === "GET" && req.url?.split("?")[0] === "/metrics") {
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+        res.end(render());
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, resolve);
+    });
+    return () => new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();   // scrapers keep connections alive
+    });
+  };
+
+  return { meter, fetchMiddleware, render, serve };
+}
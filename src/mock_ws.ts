@@ -0,0 +1,109 @@
+/**
+ * `clamm replay-ws`: a mock Solana PubSub endpoint for exercising --subscribe offline.
+ * Answers accountSubscribe / accountUnsubscribe and, once a client has subscribed,
+ * replays recorded account updates (the JSONL of --recordUpdates) as accountNotification
+ * messages, in file order, `intervalMs` apart. Updates for accounts the client does not
+ * watch are skipped, as a real node would never send them.
+ * Pair it with a snapshot: `clamm probe --fromSnapshot s.json --subscribe --wsEndpoint ws://127.0.0.1:8900`.
+ */
+
+import fs from "fs";
+import WebSocket, { WebSocketServer } from "ws";
+
+import type { AccountUpdate } from "./subscribe.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type MockWsOptions = {
+  port: number;
+  intervalMs: number;
+  startDelayMs: number;       // after the first subscribe, so the client can subscribe to the rest
+  exitWhenDone: boolean;      // close the server after replaying to the first client
+  quiet: boolean;
+};
+
+type RpcRequest = { jsonrpc: "2.0"; id: number | string; method: string; params?: unknown[] };
+
+/* -------------------------------- Reading --------------------------------- */
+export function readUpdates(file: string): AccountUpdate[] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .filter((l) => l.trim() !== "")
+    .map((l, i) => {
+      const u = JSON.parse(l) as AccountUpdate;
+      if (!u.pubkey || !Number.isFinite(u.slot) || !u.account) throw new Error(`${file}:${i + 1}: not an account update`);
+      return u;
+    });
+}
+
+/* --------------------------------- Server --------------------------------- */
+/** Starts listening; resolves once the port is bound. `done` settles when the server closes. */
+export async function startMockWs(updates: AccountUpdate[], o: MockWsOptions): Promise<{ close: () => Promise<void>; done: Promise<void> }> {
+  const server = new WebSocketServer({ port: o.port });
+  await new Promise<void>((resolve, reject) => {
+    server.once("listening", resolve);
+    server.once("error", reject);
+  });
+  const done = new Promise<void>((resolve) => server.once("close", resolve));
+  const close = () => {
+    for (const client of server.clients) client.terminate();
+    return new Promise<void>((resolve) => server.close(() => resolve()));
+  };
+  if (!o.quiet) console.log(`[replay-ws] listening on ws://127.0.0.1:${o.port} with ${updates.length} updates`);
+
+  let nextSubId = 1;
+  server.on("connection", (ws) => {
+    const subs = new Map<string, Set<number>>();    // pubkey -> subscription ids
+    let replaying = false;
+
+    const send = (msg: object) => ws.readyState === WebSocket.OPEN && ws.send(JSON.stringify(msg));
+
+    const replay = async () => {
+      await new Promise((r) => setTimeout(r, o.startDelayMs));
+      let sent = 0;
+      for (const u of updates) {
+        if (ws.readyState !== WebSocket.OPEN) return;
+        const ids = subs.get(u.pubkey);
+        if (!ids?.size) continue;
+        const { data, executable, lamports, owner, rentEpoch } = u.account;
+        const value = { data: [data, "base64"], executable, lamports, owner, rentEpoch, space: Buffer.from(data, "base64").length };
+        for (const subscription of ids) {
+          send({ jsonrpc: "2.0", method: "accountNotification", params: { result: { context: { slot: u.slot }, value }, subscription } });
+        }
+        sent++;
+        await new Promise((r) => setTimeout(r, o.intervalMs));
+      }
+      if (!o.quiet) console.log(`[replay-ws] replayed ${sent}/${updates.length} updates`);
+      if (o.exitWhenDone) await close();
+    };
+
+    ws.on("message", (raw) => {
+      let req: RpcRequest;
+      try {
+        req = JSON.parse(String(raw)) as RpcRequest;
+      } catch {
+        return;
+      }
+      const params = req.params ?? [];
+      if (req.method === "accountSubscribe") {
+        const id = nextSubId++;
+        const pubkey = String(params[0]);
+        subs.set(pubkey, (subs.get(pubkey) ?? new Set()).add(id));
+        send({ jsonrpc: "2.0", result: id, id: req.id });
+        if (!replaying) {
+          replaying = true;
+          void replay();
+        }
+      } else if (req.method === "accountUnsubscribe") {
+        const id = Number(params[0]);
+        let found = false;
+        for (const ids of subs.values()) found = ids.delete(id) || found;
+        send({ jsonrpc: "2.0", result: found, id: req.id });
+      } else if (req.id !== undefined) {
+        send({ jsonrpc: "2.0", error: { code: -32601, message: `Method not found: ${req.method}` }, id: req.id });
+      }
+    });
+  });
+
+  return { close, done };
+}
@@ -0,0 +1,157 @@
+/**
+ * Orca Whirlpools adapter for the probe (RPC-only, single pool).
+ * Quotes go through swapQuoteByInputToken / swapQuoteByOutputToken with zero slippage.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  Keypair,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import type { Wallet } from "@coral-xyz/anchor";
+import BN from "bn.js";
+import Decimal from "decimal.js";
+
+import {
+  IGNORE_CACHE,
+  SwapUtils,
+  WhirlpoolContext,
+  buildWhirlpoolClient,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  swapQuoteByInputToken,
+  swapQuoteByOutputToken,
+} from "@orca-so/whirlpools-sdk";
+import { Percentage } from "@orca-so/common-sdk";
+
+import type { PoolInfo, ProbeAdapter, SwapQuote, WatchedAccount } from "./adapter.js";
+import { coverageFrom, type ClmmState } from "./engine.js";
+import {
+  WHIRLPOOL_TICK_ARRAY_SIZE,
+  decodeWhirlpool,
+  decodeWhirlpoolTickArray,
+  fetchTickArrays,
+  tickArrayStarts,
+  tickArraysBetween,
+  whirlpoolTickArrayPda,
+} from "./layouts.js";
+import { tokensFor } from "./tokens.js";
+import { pxBperA_fromSqrt } from "./utils.js";
+
+/* ------------------------------ Wallet shim ------------------------------- */
+function mkDummyWallet(): Wallet {
+  const kp = Keypair.generate();
+  return {
+    publicKey: kp.publicKey,
+    payer: kp,
+    async signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T> { return tx; },
+    async signAllTransactions<T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]> { return txs; },
+  };
+}
+
+export function mkOrcaAdapter(connection: Connection, poolAddress: string): ProbeAdapter {
+  const ctx = WhirlpoolContext.from(connection, mkDummyWallet(), ORCA_WHIRLPOOL_PROGRAM_ID);
+  const client = buildWhirlpoolClient(ctx);
+  const poolPk = new PublicKey(poolAddress);
+  const zeroSlip = Percentage.fromFraction(0, 1);
+  // Arrays crossed, from the quote's end tick
+  const crossed = (q: { estimatedEndTickIndex: number }, info: PoolInfo): number[] =>
+    tickArraysBetween(info.tickCurrent, q.estimatedEndTickIndex, info.tickSpacing, WHIRLPOOL_TICK_ARRAY_SIZE);
+
+  let pool: Awaited<ReturnType<typeof client.getPool>> | null = null;
+  let info: PoolInfo | null = null;
+
+  const loaded = () => {
+    if (!pool || !info) throw new Error("Orca adapter: call load() first");
+    return { pool, info };
+  };
+
+  return {
+    dex: "orca",
+    // A Whirlpool swap passes exactly three tick arrays: the current one and two in the direction of the swap
+    maxSwapArrays: 3,
+
+    async load() {
+      // Bypass the fetcher cache so a reload (watch mode) sees the current pool and tick arrays
+      pool = await client.getPool(poolPk, IGNORE_CACHE);
+      const data = pool.getData();
+      const arrays = [true, false].flatMap((aToB) =>
+        SwapUtils.getTickArrayPublicKeys(data.tickCurrentIndex, data.tickSpacing, aToB, ORCA_WHIRLPOOL_PROGRAM_ID, poolPk));
+      await ctx.fetcher.getTickArrays(arrays, IGNORE_CACHE);
+      const mintA = data.tokenMintA.toBase58();
+      const mintB = data.tokenMintB.toBase58();
+      const [decA, decB] = await tokensFor(connection).decimalsOf([mintA, mintB]);
+      info = {
+        dex: "orca",
+        pool: poolPk.toBase58(),
+        programId: ORCA_WHIRLPOOL_PROGRAM_ID.toBase58(),
+        tickSpacing: data.tickSpacing,
+        feePpm: Number(data.feeRate),
+        protocolFeePpm: Number(data.protocolFeeRate),
+        liquidity: data.liquidity,
+        sqrtPriceX64: data.sqrtPrice,
+        tickCurrent: data.tickCurrentIndex,
+        mintA, decA,
+        mintB, decB,
+      };
+      return info;
+    },
+
+    midPrice(): Decimal {
+      const { info } = loaded();
+      return pxBperA_fromSqrt(info.sqrtPriceX64, info.decA, info.decB);
+    },
+
+    async quoteExactIn(inputMint: string, amountIn: BN): Promise<SwapQuote> {
+      const { pool, info } = loaded();
+      const q = await swapQuoteByInputToken(
+        pool, new PublicKey(inputMint), amountIn, zeroSlip, ORCA_WHIRLPOOL_PROGRAM_ID, ctx.fetcher
+      );
+      return { amountIn: q.estimatedAmountIn, amountOut: q.estimatedAmountOut, feeAmount: q.estimatedFeeAmount, tickArrays: crossed(q, info) };
+    },
+
+    async quoteExactOut(outputMint: string, amountOut: BN): Promise<SwapQuote> {
+      const { pool, info } = loaded();
+      const q = await swapQuoteByOutputToken(
+        pool, new PublicKey(outputMint), amountOut, zeroSlip, ORCA_WHIRLPOOL_PROGRAM_ID, ctx.fetcher
+      );
+      return { amountIn: q.estimatedAmountIn, amountOut: q.estimatedAmountOut, feeAmount: q.estimatedFeeAmount, tickArrays: crossed(q, info) };
+    },
+
+    // Raw Whirlpool + tick arrays for the native engine (no SDK decoding)
+    async clmmState(arraysEachSide: number): Promise<ClmmState> {
+      const acc = await connection.getAccountInfo(poolPk);
+      if (!acc) throw new Error(`Whirlpool ${poolPk.toBase58()} not found`);
+      const w = decodeWhirlpool(acc.data);
+      const ta = await fetchTickArrays(
+        connection, w.tickCurrent, w.tickSpacing, WHIRLPOOL_TICK_ARRAY_SIZE, arraysEachSide,
+        (start) => whirlpoolTickArrayPda(ORCA_WHIRLPOOL_PROGRAM_ID, poolPk, start),
+        (data) => decodeWhirlpoolTickArray(data, w.tickSpacing)
+      );
+      return {
+        tickMath: "whirlpool",
+        sqrtPriceX64: w.sqrtPriceX64,
+        tickCurrent: w.tickCurrent,
+        liquidity: w.liquidity,
+        feePpm: w.feeRate,
+        tickSpacing: w.tickSpacing,
+        ticks: ta.ticks,
+        ...coverageFrom(ta.loadedStarts, ta.currentStart, ta.span),
+        arraySpan: ta.span,
+        missingArrays: ta.missingStarts,
+      };
+    },
+
+    watchAccounts(arraysEachSide: number): WatchedAccount[] {
+      const { info } = loaded();
+      return [
+        { pubkey: info.pool, kind: "pool" as const },
+        ...tickArrayStarts(info.tickCurrent, info.tickSpacing, WHIRLPOOL_TICK_ARRAY_SIZE, arraysEachSide).map((start) => ({
+          pubkey: whirlpoolTickArrayPda(ORCA_WHIRLPOOL_PROGRAM_ID, poolPk, start).toBase58(),
+          kind: "tick_array" as const,
+        })),
+      ];
+    },
+  };
+}
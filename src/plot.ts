@@ -0,0 +1,351 @@
+/**
+ * `clamm plot`: charts of roundtrip probe output, drawn as plain SVG (no browser),
+ * optionally rasterized to PNG, plus a static HTML report with summary tables.
+ * - roundtrip_<unit>.svg   roundtrip bps vs size, one line per pool (median, p10–p90 band)
+ * - impact_<unit>.svg      impact bps vs size, same layout
+ * - exec_price_<unit>.svg  BUY / SELL exec price vs mid in bps (BUY above 0, SELL below)
+ * Charts are split by size unit (usd / quote): sizes in different units share no axis.
+ */
+
+import fs from "fs";
+import path from "path";
+
+import type { MergedRow } from "./merge.js";
+import { percentile } from "./utils.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type PlotFilter = {
+  since?: Date;
+  until?: Date;
+  pools?: string[];           // pubkeys or dex:pubkey
+  runId?: string;             // "latest": the run of the newest row
+};
+
+type Band = [number, number, number];     // p10, median, p90
+
+type SeriesPoint = { x: number; band: Band };
+
+type Series = { name: string; color: string; dashed?: boolean; points: SeriesPoint[] };
+
+export type Chart = {
+  name: string;               // file name without extension
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  series: Series[];
+  zeroLine?: string;          // label of a y = 0 reference line
+};
+
+/** One pool and size over the plotted rows */
+export type SummaryRow = {
+  dex: string;
+  pool: string;
+  sizeUnit: string;
+  size: number;
+  n: number;
+  errors: number;
+  rt: Band;
+  impact: Band;
+  buyVsMidBps: number;        // medians
+  sellVsMidBps: number;
+};
+
+export type PlotOutput = { outDir: string; png: boolean; html: boolean; title: string; notes: string[] };
+
+/** matplotlib's tab10, the colours of the readme's exec_price.png */
+const PALETTE = ["#1f77b4", "#ff7f0e", "#2ca02c", "#d62728", "#9467bd", "#8c564b", "#e377c2", "#7f7f7f", "#bcbd22", "#17becf"];
+
+/* -------------------------------- Filtering -------------------------------- */
+/** ISO time, or a span back from `now`: 90m, 24h, 7d */
+export function parseTime(s: string, now = new Date()): Date {
+  const span = /^(\d+(?:\.\d+)?)([mhd])$/.exec(s.trim());
+  if (span) {
+    const ms = Number(span[1]) * { m: 60_000, h: 3_600_000, d: 86_400_000 }[span[2] as "m" | "h" | "d"];
+    return new Date(now.getTime() - ms);
+  }
+  const t = new Date(s);
+  if (Number.isNaN(t.getTime())) throw new Error(`Invalid time "${s}". Use ISO (2024-05-01T12:00Z) or a span like 90m, 24h, 7d`);
+  return t;
+}
+
+export function filterRows(rows: MergedRow[], f: PlotFilter): MergedRow[] {
+  let runId = f.runId;
+  if (runId === "latest") {
+    const newest = rows.filter((r) => r.runId).sort((a, b) => b.ts.localeCompare(a.ts))[0];
+    if (!newest) throw new Error("--runId latest: no row carries a run_id (old probe layouts)");
+    runId = newest.runId;
+  }
+  return rows.filter((r) => {
+    const t = new Date(r.ts).getTime();
+    if (f.since && !(t >= f.since.getTime())) return false;
+    if (f.until && !(t < f.until.getTime())) return false;
+    if (f.pools && !f.pools.some((p) => p === r.pool || p === `${r.dex}:${r.pool}`)) return false;
+    return !runId || r.runId === runId;
+  });
+}
+
+/* -------------------------------- Grouping --------------------------------- */
+const band = (xs: number[]): Band => {
+  const s = xs.filter(Number.isFinite).sort((a, b) => a - b);
+  return [percentile(s, 0.1), percentile(s, 0.5), percentile(s, 0.9)];
+};
+
+const vsMidBps = (px: number, mid: number) => (px / mid - 1) * 1e4;
+
+const label = (dex: string, pool: string) => `${dex}:${pool.slice(0, 6)}…`;
+
+/** rows grouped by key, in first-seen order */
+function groupBy<T>(rows: T[], key: (r: T) => string): Map<string, T[]> {
+  const out = new Map<string, T[]>();
+  for (const r of rows) {
+    const k = key(r);
+    const g = out.get(k);
+    if (g) g.push(r);
+    else out.set(k, [r]);
+  }
+  return out;
+}
+
+export function summarize(rows: MergedRow[]): SummaryRow[] {
+  const groups = groupBy(rows, (r) => [r.dex, r.pool, r.sizeUnit, r.size].join("|"));
+  return [...groups.values()]
+    .map((rs) => {
+      const ok = rs.filter((r) => !r.error);
+      return {
+        dex: rs[0].dex,
+        pool: rs[0].pool,
+        sizeUnit: rs[0].sizeUnit,
+        size: rs[0].size,
+        n: rs.length,
+        errors: rs.length - ok.length,
+        rt: band(ok.map((r) => r.rtBps)),
+        impact: band(ok.map((r) => r.impactBps)),
+        buyVsMidBps: band(ok.map((r) => vsMidBps(r.buyPx, r.mid)))[1],
+        sellVsMidBps: band(ok.map((r) => vsMidBps(r.sellPx, r.mid)))[1],
+      };
+    })
+    .sort((a, b) => a.sizeUnit.localeCompare(b.sizeUnit) || a.dex.localeCompare(b.dex) || a.pool.localeCompare(b.pool) || a.size - b.size);
+}
+
+/** The three charts for each size unit in `rows` */
+export function buildCharts(rows: MergedRow[]): Chart[] {
+  const charts: Chart[] = [];
+  for (const [unit, unitRows] of groupBy(rows.filter((r) => !r.error), (r) => r.sizeUnit)) {
+    const pools = [...groupBy(unitRows, (r) => `${r.dex}:${r.pool}`).values()];
+    const xLabel = `Size (${unit})`;
+    const curve = (value: (r: MergedRow) => number) => (rs: MergedRow[]): SeriesPoint[] =>
+      [...groupBy(rs, (r) => String(r.size)).values()]
+        .map((g) => ({ x: g[0].size, band: band(g.map(value)) }))
+        .filter((p) => Number.isFinite(p.band[1]))
+        .sort((a, b) => a.x - b.x);
+    const perPool = (value: (r: MergedRow) => number): Series[] =>
+      pools.map((rs, i) => ({ name: label(rs[0].dex, rs[0].pool), color: PALETTE[i % PALETTE.length], points: curve(value)(rs) }));
+
+    charts.push(
+      { name: `roundtrip_${unit}`, title: "Roundtrip spread vs size", xLabel, yLabel: "Roundtrip (bps of mid)", series: perPool((r) => r.rtBps) },
+      { name: `impact_${unit}`, title: "Price impact vs size (fees excluded)", xLabel, yLabel: "Impact (bps of mid)", series: perPool((r) => r.impactBps) },
+      {
+        name: `exec_price_${unit}`,
+        title: "Executed BUY / SELL price vs mid",
+        xLabel,
+        yLabel: "Exec price vs mid (bps)",
+        zeroLine: "mid",
+        series: pools.flatMap((rs, i) => {
+          const color = PALETTE[i % PALETTE.length];
+          const name = label(rs[0].dex, rs[0].pool);
+          return [
+            { name: `${name} buy`, color, points: curve((r) => vsMidBps(r.buyPx, r.mid))(rs) },
+            { name: `${name} sell`, color, dashed: true, points: curve((r) => vsMidBps(r.sellPx, r.mid))(rs) },
+          ];
+        }),
+      }
+    );
+  }
+  return charts;
+}
+
+/* ---------------------------------- Axes ----------------------------------- */
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** 1234567 -> 1.23M; keeps small numbers readable */
+function compact(x: number): string {
+  const a = Math.abs(x);
+  if (a >= 1e9) return `${+(x / 1e9).toPrecision(3)}B`;
+  if (a >= 1e6) return `${+(x / 1e6).toPrecision(3)}M`;
+  if (a >= 1e3) return `${+(x / 1e3).toPrecision(3)}k`;
+  return String(+x.toPrecision(3));
+}
+
+/** ~5 round ticks covering [lo, hi] */
+function linearTicks(lo: number, hi: number): number[] {
+  const raw = (hi - lo) / 5 || Math.abs(hi) || 1;
+  const mag = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].map((m) => m * mag).find((s) => s >= raw) ?? 10 * mag;
+  const out: number[] = [];
+  for (let t = Math.ceil(lo / step) * step; t <= hi + step * 1e-9; t += step) out.push(+t.toPrecision(12));
+  return out;
+}
+
+/** Decades, with 2 and 5 in between when the range spans few of them */
+function logTicks(lo: number, hi: number): number[] {
+  const out: number[] = [];
+  const few = Math.log10(hi / lo) < 3;
+  for (let e = Math.floor(Math.log10(lo)); e <= Math.ceil(Math.log10(hi)); e++) {
+    for (const m of few ? [1, 2, 5] : [1]) {
+      const t = m * 10 ** e;
+      if (t >= lo * (1 - 1e-9) && t <= hi * (1 + 1e-9)) out.push(t);
+    }
+  }
+  return out;
+}
+
+/* ---------------------------------- SVG ------------------------------------ */
+const W = 900;
+const H = 480;
+const M = { l: 72, r: 24, t: 44, b: 56 };
+
+export function renderSvg(c: Chart): string {
+  const pts = c.series.flatMap((s) => s.points);
+  const xs = pts.map((p) => p.x);
+  const ys = pts.flatMap((p) => p.band).filter(Number.isFinite);
+  if (c.zeroLine) ys.push(0);
+  const [xMin, xMax] = xs.length ? [Math.min(...xs), Math.max(...xs)] : [1, 10];
+  const logX = xMin > 0 && xMax / xMin >= 50;
+  let [yMin, yMax] = ys.length ? [Math.min(...ys), Math.max(...ys)] : [0, 1];
+  const pad = (yMax - yMin) * 0.05 || Math.abs(yMax) * 0.05 || 1;
+  [yMin, yMax] = [yMin - pad, yMax + pad];
+
+  const pw = W - M.l - M.r;
+  const ph = H - M.t - M.b;
+  const fx = logX
+    ? (x: number) => M.l + ((Math.log10(x) - Math.log10(xMin)) / (Math.log10(xMax) - Math.log10(xMin) || 1)) * pw
+    : (x: number) => M.l + ((x - xMin) / (xMax - xMin || 1)) * pw;
+  const fy = (y: number) => M.t + (1 - (y - yMin) / (yMax - yMin)) * ph;
+  const f = (v: number) => v.toFixed(1);
+
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" font-family="DejaVu Sans, Arial, sans-serif" font-size="12">`,
+    `<rect width="${W}" height="${H}" fill="#ffffff"/>`,
+    `<text x="${W / 2}" y="${M.t - 18}" text-anchor="middle" font-size="16">${esc(c.title)}</text>`,
+  ];
+
+  // Grid and tick labels
+  for (const t of logX ? logTicks(xMin, xMax) : linearTicks(xMin, xMax)) {
+    const x = f(fx(t));
+    out.push(`<line x1="${x}" y1="${M.t}" x2="${x}" y2="${M.t + ph}" stroke="#e5e5e5"/>`);
+    out.push(`<text x="${x}" y="${M.t + ph + 18}" text-anchor="middle">${compact(t)}</text>`);
+  }
+  for (const t of linearTicks(yMin, yMax)) {
+    const y = f(fy(t));
+    out.push(`<line x1="${M.l}" y1="${y}" x2="${M.l + pw}" y2="${y}" stroke="#e5e5e5"/>`);
+    out.push(`<text x="${M.l - 8}" y="${y}" text-anchor="end" dominant-baseline="middle">${compact(t)}</text>`);
+  }
+  out.push(`<rect x="${M.l}" y="${M.t}" width="${pw}" height="${ph}" fill="none" stroke="#333333"/>`);
+  out.push(`<text x="${M.l + pw / 2}" y="${H - 14}" text-anchor="middle">${esc(c.xLabel)}${logX ? " — log scale" : ""}</text>`);
+  out.push(`<text transform="translate(18 ${M.t + ph / 2}) rotate(-90)" text-anchor="middle">${esc(c.yLabel)}</text>`);
+
+  if (c.zeroLine) {
+    const y = f(fy(0));
+    out.push(`<line x1="${M.l}" y1="${y}" x2="${M.l + pw}" y2="${y}" stroke="#333333" stroke-dasharray="2 3"/>`);
+    out.push(`<text x="${M.l + pw - 6}" y="${+y - 6}" text-anchor="end" fill="#333333">${esc(c.zeroLine)}</text>`);
+  }
+
+  // p10–p90 bands under the median lines
+  for (const s of c.series) {
+    if (s.points.length < 2) continue;
+    const upper = s.points.map((p) => `${f(fx(p.x))},${f(fy(p.band[2]))}`);
+    const lower = [...s.points].reverse().map((p) => `${f(fx(p.x))},${f(fy(p.band[0]))}`);
+    out.push(`<polygon points="${[...upper, ...lower].join(" ")}" fill="${s.color}" fill-opacity="0.15" stroke="none"/>`);
+  }
+  for (const s of c.series) {
+    const line = s.points.map((p) => `${f(fx(p.x))},${f(fy(p.band[1]))}`).join(" ");
+    const dash = s.dashed ? ` stroke-dasharray="6 4"` : "";
+    out.push(`<polyline points="${line}" fill="none" stroke="${s.color}" stroke-width="2"${dash}/>`);
+    for (const p of s.points) out.push(`<circle cx="${f(fx(p.x))}" cy="${f(fy(p.band[1]))}" r="3" fill="${s.color}"/>`);
+  }
+
+  // Legend, top left inside the plot
+  const rowH = 18;
+  const legendW = 16 + 30 + 7 * Math.max(0, ...c.series.map((s) => s.name.length));
+  out.push(`<rect x="${M.l + 10}" y="${M.t + 10}" width="${legendW}" height="${c.series.length * rowH + 8}" fill="#ffffff" fill-opacity="0.85" stroke="#cccccc"/>`);
+  c.series.forEach((s, i) => {
+    const y = M.t + 10 + 4 + rowH * i + rowH / 2;
+    const dash = s.dashed ? ` stroke-dasharray="6 4"` : "";
+    out.push(`<line x1="${M.l + 18}" y1="${y}" x2="${M.l + 42}" y2="${y}" stroke="${s.color}" stroke-width="2"${dash}/>`);
+    out.push(`<text x="${M.l + 50}" y="${y}" dominant-baseline="middle">${esc(s.name)}</text>`);
+  });
+
+  out.push("</svg>");
+  return out.join("\n") + "\n";
+}
+
+/** PNG through resvg (a native rasterizer, no browser); loaded only when asked for */
+async function toPng(svg: string): Promise<Buffer> {
+  const { Resvg } = await import("@resvg/resvg-js");
+  return Buffer.from(new Resvg(svg, { fitTo: { mode: "zoom", value: 2 }, font: { loadSystemFonts: true } }).render().asPng());
+}
+
+/* ---------------------------------- HTML ----------------------------------- */
+const cell = (x: number, d = 2) => (Number.isFinite(x) ? x.toFixed(d) : "–");
+
+export function renderHtml(o: PlotOutput, charts: Chart[], summary: SummaryRow[]): string {
+  const rows = summary.map((s) =>
+    `<tr><td title="${esc(s.pool)}">${esc(label(s.dex, s.pool))}</td><td>${compact(s.size)}</td><td>${esc(s.sizeUnit)}</td>` +
+    `<td>${s.n}</td><td>${s.errors}</td><td>${cell(s.rt[0])}</td><td><b>${cell(s.rt[1])}</b></td><td>${cell(s.rt[2])}</td>` +
+    `<td>${cell(s.impact[1])}</td><td>${cell(s.buyVsMidBps)}</td><td>${cell(s.sellVsMidBps)}</td></tr>`
+  );
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(o.title)}</title>
+<style>
+  body { font-family: DejaVu Sans, Arial, sans-serif; margin: 24px; color: #222; }
+  table { border-collapse: collapse; margin: 12px 0 32px; font-size: 13px; }
+  th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: right; }
+  th { background: #f4f4f4; }
+  td:first-child, th:first-child { text-align: left; }
+  .notes { color: #555; font-size: 13px; }
+</style>
+</head>
+<body>
+<h1>${esc(o.title)}</h1>
+<ul class="notes">
+${o.notes.map((n) => `<li>${esc(n)}</li>`).join("\n")}
+</ul>
+<h2>Summary (bps; medians unless noted)</h2>
+<table>
+<tr><th>Pool</th><th>Size</th><th>Unit</th><th>n</th><th>Errors</th><th>RT p10</th><th>RT median</th><th>RT p90</th><th>Impact</th><th>BUY vs mid</th><th>SELL vs mid</th></tr>
+${rows.join("\n")}
+</table>
+<h2>Charts</h2>
+${charts.map((c) => `<figure>\n${renderSvg(c)}</figure>`).join("\n")}
+</body>
+</html>
+`;
+}
+
+/* --------------------------------- Output ---------------------------------- */
+/** Write every chart (SVG, PNG when asked) and the report; returns the written paths */
+export async function writePlots(rows: MergedRow[], o: PlotOutput): Promise<string[]> {
+  const charts = buildCharts(rows);
+  fs.mkdirSync(o.outDir, { recursive: true });
+  const written: string[] = [];
+  for (const c of charts) {
+    const svg = renderSvg(c);
+    const file = path.join(o.outDir, `${c.name}.svg`);
+    fs.writeFileSync(file, svg);
+    written.push(file);
+    if (o.png) {
+      const png = path.join(o.outDir, `${c.name}.png`);
+      fs.writeFileSync(png, await toPng(svg));
+      written.push(png);
+    }
+  }
+  if (o.html) {
+    const file = path.join(o.outDir, "report.html");
+    fs.writeFileSync(file, renderHtml(o, charts, summarize(rows)));
+    written.push(file);
+  }
+  return written;
+}
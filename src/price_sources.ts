@@ -0,0 +1,159 @@
+/**
+ * USD price sources for the QUOTE/BASE conversion. Each prices one mint in USD:
+ * - pool: a pool pairing the mint with the USD mint, on any venue adapter
+ * - chain: pools hop by hop down to the USD mint, e.g. mSOL/SOL then SOL/USDC
+ * - pyth: a Pyth price account decoded from raw data (layouts.ts), refused when its
+ *   confidence interval is too wide or its publish time too old
+ * The probe reads every configured source, converts with the first that answers and
+ * reports how far the others are from it (usdRates in probe.ts).
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import Decimal from "decimal.js";
+
+import type { Dex, PoolInfo, ProbeAdapter } from "./adapter.js";
+import { parsePoolList, poolLabel, type PoolRef } from "./compare.js";
+import { decodePythPrice } from "./layouts.js";
+import { ReplayConnection } from "./snapshot.js";
+import { SOL_USDC_WHIRLPOOL } from "./utils.js";
+
+export const PYTH_MAX_AGE_SEC = 60;
+export const PYTH_MAX_CONF_BPS = 50;
+
+/** --solUsdSource default: the --usdMode fallback when SOL is the QUOTE and no source is given */
+export const DEFAULT_SOL_USD_SOURCE = `pool:orca:${SOL_USDC_WHIRLPOOL}`;
+
+/* -------------------------------- Types ---------------------------------- */
+export type PriceSourceKind = "pool" | "chain" | "pyth";
+
+/** One source's answer: USD per token of `mint` */
+export type SourcePrice = {
+  mint: string;
+  usd: number;
+  confBps: number;            // Pyth confidence interval, bps of the price (NaN for pools)
+};
+
+export interface PriceSource {
+  readonly kind: PriceSourceKind;
+  /** The spec it was built from, e.g. pool:orca:<pubkey> (usd_source in the CSV) */
+  readonly label: string;
+  /** Read the price; throws (why, without the label) when the source cannot price anything against `usdMint` */
+  price(usdMint: string): Promise<SourcePrice>;
+}
+
+/** One --usdSources item */
+export type PriceSourceSpec =
+  | { kind: "pool" | "chain"; hops: PoolRef[] }
+  | { kind: "pyth"; mint: string; account: string };
+
+/** Pyth checks; 0 disables one */
+export type PythLimits = { maxAgeSec: number; maxConfBps: number };
+
+/* ------------------------------- Parsing ---------------------------------- */
+/**
+ * "pool:orca:<pk>,chain:orca:<mSOL/SOL>+orca:<SOL/USDC>,pyth:SOL:<price account>" -> specs.
+ * Chain hops run from the priced mint to the USD mint; `mintFor` resolves Pyth symbols.
+ */
+export function parsePriceSources(list: string, dexes: readonly Dex[], mintFor: (s: string) => string): PriceSourceSpec[] {
+  return list.split(",").map((s) => s.trim()).filter(Boolean).map((item): PriceSourceSpec => {
+    const [kind, ...rest] = item.split(":");
+    const body = rest.join(":");
+    if (kind === "pool" || kind === "chain") {
+      const hops = parsePoolList(body.split("+").join(","), dexes);
+      if (kind === "pool" ? hops.length !== 1 : hops.length < 2) {
+        throw new Error(`Invalid USD source "${item}": ${kind === "pool" ? "one pool" : "two pools or more, joined by +"}`);
+      }
+      return { kind, hops };
+    }
+    const [mint, account] = rest;
+    if (kind === "pyth" && mint && account && rest.length === 2) return { kind, mint: mintFor(mint), account };
+    throw new Error(
+      `Invalid USD source "${item}". Expected pool:<dex>:<pubkey>, chain:<dex>:<pubkey>+<dex>:<pubkey>[+...] or pyth:<mint>:<price account>`
+    );
+  });
+}
+
+/** --usdSources specs, with --oraclePool (on --oracleDex) first as a pool source */
+export function priceSourceSpecs(o: {
+  usdSources?: string;
+  oraclePool?: string;
+  oracleDex: Dex;
+  dexes: readonly Dex[];
+  mintFor: (s: string) => string;
+}): PriceSourceSpec[] {
+  return [
+    ...(o.oraclePool ? [{ kind: "pool" as const, hops: [{ dex: o.oracleDex, pool: o.oraclePool }] }] : []),
+    ...parsePriceSources(o.usdSources ?? "", o.dexes, o.mintFor),
+  ];
+}
+
+/* ------------------------------- Sources ---------------------------------- */
+/** Build a spec's source; `mkPool` gives the venue adapter of a pool (cli.ts mkAdapter) */
+export function mkPriceSource(
+  spec: PriceSourceSpec,
+  conn: Connection,
+  mkPool: (ref: PoolRef) => ProbeAdapter,
+  limits: PythLimits
+): PriceSource {
+  if (spec.kind === "pyth") return mkPythSource(conn, spec.mint, spec.account, limits);
+  return mkPoolSource(spec.hops.map((ref) => ({ ref, adapter: mkPool(ref) })));
+}
+
+/** One pool (kind pool) or several hops (kind chain), walked back from the USD end */
+export function mkPoolSource(hops: Array<{ ref: PoolRef; adapter: ProbeAdapter }>): PriceSource {
+  const kind = hops.length === 1 ? "pool" : "chain";
+  return {
+    kind,
+    label: `${kind}:${hops.map((h) => poolLabel(h.ref)).join("+")}`,
+
+    async price(usdMint: string): Promise<SourcePrice> {
+      // Each hop prices the mint it shares with the hop after it (USD for the last one)
+      let mint = usdMint;
+      let usd = new Decimal(1);
+      for (const { ref, adapter } of [...hops].reverse()) {
+        let info: PoolInfo;
+        try {
+          info = await adapter.load();
+        } catch (e: unknown) {
+          throw new Error(`${poolLabel(ref)} failed to load: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        const pxBperA = adapter.midPrice();
+        if (info.mintB === mint) [mint, usd] = [info.mintA, usd.mul(pxBperA)];
+        else if (info.mintA === mint) [mint, usd] = [info.mintB, usd.div(pxBperA)];
+        else throw new Error(`${poolLabel(ref)} (${info.mintA}/${info.mintB}) does not hold ${mint}`);
+      }
+      return { mint, usd: usd.toNumber(), confBps: Number.NaN };
+    },
+  };
+}
+
+/** Replays judge a price's age at capture time */
+const nowSec = (conn: Connection): number =>
+  (conn instanceof ReplayConnection ? Date.parse(conn.snapshot.capturedAt) : Date.now()) / 1000;
+
+/** A Pyth price account (PriceUpdateV2 or legacy) pricing `mint` in USD */
+export function mkPythSource(conn: Connection, mint: string, account: string, limits: PythLimits): PriceSource {
+  return {
+    kind: "pyth",
+    label: `pyth:${mint}:${account}`,
+
+    async price(): Promise<SourcePrice> {
+      const acc = await conn.getAccountInfo(new PublicKey(account));
+      if (!acc) throw new Error("price account not found");
+      const p = decodePythPrice(acc.data);
+      if (!p.usable) throw new Error(p.layout === "legacy" ? "not trading" : "not fully verified");
+      const scale = new Decimal(10).pow(p.expo);
+      const usd = new Decimal(p.price.toString()).mul(scale);
+      if (!usd.gt(0)) throw new Error(`price ${usd.toString()}`);
+      const confBps = new Decimal(p.conf.toString()).mul(scale).div(usd).mul(1e4).toNumber();
+      const age = nowSec(conn) - p.publishTime;
+      if (limits.maxAgeSec > 0 && age > limits.maxAgeSec) {
+        throw new Error(`published ${Math.round(age)} s ago (> ${limits.maxAgeSec} s)`);
+      }
+      if (limits.maxConfBps > 0 && confBps > limits.maxConfBps) {
+        throw new Error(`confidence ±${confBps.toFixed(2)} bps (> ${limits.maxConfBps} bps)`);
+      }
+      return { mint, usd: usd.toNumber(), confBps };
+    },
+  };
+}
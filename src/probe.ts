@@ -0,0 +1,845 @@
+/**
+ * Venue-agnostic roundtrip probe.
+ * - BUY:  QUOTE -> BASE exact-in (spend the notional)
+ * - SELL: BASE -> QUOTE exact-out (receive the notional)
+ * Together they make the roundtrip. The other two quote types use the notional's BASE
+ * equivalent at mid: BUY exact-out (receive that BASE) and SELL exact-in (spend it).
+ * Every leg is also reported one-sided, in bps of mid. With tick-level state
+ * (--coverageArrays) each row also says which tick arrays BUY and SELL ran through
+ * and, when a size fails, which array stopped it and the most the pool fills (coverage.ts).
+ * Sizing, USD conversion, console table and CSV rows live here; the venue
+ * specifics live behind ProbeAdapter (orca_adapter.ts, raydium_adapter.ts).
+ */
+
+import BN from "bn.js";
+import Decimal from "decimal.js";
+
+import { isLiquidityError, type PoolInfo, type ProbeAdapter, type SwapQuote } from "./adapter.js";
+import { formatArrays, formatBlocker, maxFill, replayQuote, type MaxFill } from "./coverage.js";
+import { liquidityProfile, printProfile } from "./depth.js";
+import type { ClmmState } from "./engine.js";
+import type { PriceSource } from "./price_sources.js";
+import type { SlotRange, SlotSource } from "./rpc.js";
+import type { OutputSink } from "./sink.js";
+import { solveTargets, type Measurement, type TargetBasis, type TargetResult } from "./solver.js";
+import type { Trigger } from "./subscribe.js";
+import type { TokenResolver } from "./tokens.js";
+import { grossUp, transferFeeOn, type TransferFee } from "./transfer_fee.js";
+import { checkDecimals, checkLeg, formatTrace, tokenAmount, traceLeg, type UnitCheckMode } from "./units.js";
+import { USDC, WSOL, sleep, toBps } from "./utils.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type SizeUnit = "usd" | "quote";
+export type PriceUnit = "usd" | "quote";
+export type EngineMode = "sdk" | "native" | "diff";
+
+export const SLOT_CHECK_MODES = ["warn", "strict"] as const;
+/** warn: flag the rows (slot_check); strict: turn them into error rows */
+export type SlotCheckMode = (typeof SLOT_CHECK_MODES)[number];
+
+export type ProbeOptions = {
+  sizes: number[];
+  sizeUnit?: SizeUnit;        // default: usd if USDC in pool, else quote
+  priceUnit?: PriceUnit;      // default: usd if USDC in pool, else quote
+  usdMode: boolean;           // default both units to usd unless explicitly set
+  quoteMint?: string;
+  usdMint: string;
+  tokens: TokenResolver;      // symbols and USD/BTC classes (tokens.ts)
+  usdSources?: PriceSource[]; // USD prices of QUOTE or BASE (price_sources.ts); the first that answers is used
+  solUsdSource?: PriceSource; // --usdMode fallback when SOL is the QUOTE
+  maxUsdDeviationBps?: number; // sources further apart than this are warned about
+  depthDump?: number;
+  coverageArrays?: number;    // tick arrays each side read to replay quotes (coverage.ts); 0 = off
+  unitCheck: UnitCheckMode;   // what a unit mismatch does to the row (units.ts)
+  slots?: SlotSource;         // context slots of the pool and oracle reads (rpc.ts)
+  maxSlotSpread: number;      // pool and oracle reads further apart than this (slots) are flagged
+  slotCheck: SlotCheckMode;
+  engine: EngineMode;         // label only; the CLI picks `adapter` accordingly
+  crossCheck?: ProbeAdapter;  // --engine diff: native engine quotes compared to `adapter`
+  sleepMs: number;
+  out?: OutputSink;           // opened (and headed) by the caller; batch shares one
+  runId: string;              // same for every row of one invocation
+  quiet: boolean;
+  pair?: [string, string];    // compare: the pool must hold exactly these two mints
+  targets?: { bps: number[]; basis: TargetBasis }; // inverse mode (solver.ts) instead of the size ladder
+  trigger?: Trigger;          // --subscribe: the account change this re-quote answers (subscribe.ts)
+};
+
+/** One roundtrip, in the run's price unit (what the console table shows) */
+export type RoundtripRow = {
+  size: number;               // in sizeUnit
+  mid: number;
+  buyPx: number;
+  sellPx: number;
+  rtBps: number;
+  buyBps: number;             // BUY exact-in vs mid: (buy − mid) / mid
+  sellBps: number;            // SELL exact-out vs mid: (mid − sell) / mid
+  buyExactOutBps: number;     // BUY exact-out on BASE vs mid (NaN when that quote failed)
+  sellExactInBps: number;     // SELL exact-in on BASE vs mid (NaN when that quote failed)
+  feeBps: number;
+  transferFeeBps: number;     // Token-2022 transfer fees, all four transfers (0 for SPL Token mints)
+  impactBps: number;
+  error?: string;             // set on error rows (prices NaN)
+};
+
+/** What runProbe measured, for callers that compare pools (compare.ts) */
+export type ProbeResult = {
+  info: PoolInfo;
+  quoteMint: string;
+  baseMint: string;
+  sizeUnit: SizeUnit;
+  priceUnit: PriceUnit;
+  rows: RoundtripRow[];
+  targets?: TargetResult[];   // inverse mode only (rows is then empty)
+};
+
+/* ------------------------------- CSV header ------------------------------- */
+export function csvHeader(): string[] {
+  return [
+    "ts_utc",
+    "dex",
+    "pool",
+    "program_id",
+    "tick_spacing",
+    "fee_ppm",
+    "fee_bps",
+    "protocol_fee_ppm",
+    "liquidity_u128",
+    "sqrt_price_x64",
+    "tick_current",
+    "mintA","decA","symbolA",
+    "mintB","decB","symbolB",
+    "base_mint","base_decimals","base_symbol",
+    "quote_mint","quote_decimals","quote_symbol",
+    "size_unit","price_unit",
+    "mid_quote_per_base",          // e.g., BTC per SOL
+    "mid_usd_per_base",            // USD per SOL (if available/needed)
+    "buy_px_quote_per_base",
+    "sell_px_quote_per_base",
+    "buy_px_usd_per_base",
+    "sell_px_usd_per_base",
+    "usd_per_quote",               // USD per BTC (if available/needed)
+    "size_value",                  // raw size in the chosen size_unit
+    "roundtrip_bps",
+    "fee_bps_total",
+    "transfer_fee_bps",            // Token-2022 transfer fees on both legs, in and out (not in impact)
+    "impact_bps_total",
+    "buy_bps_vs_mid",              // BUY exact-in on QUOTE: (buy_px − mid) / mid
+    "sell_bps_vs_mid",             // SELL exact-out on QUOTE: (mid − sell_px) / mid
+    "base_notional",               // the size in BASE at mid: notional of the two quotes below
+    "buy_exact_out_px_quote_per_base",   // BUY exact-out on BASE (receive base_notional)
+    "buy_exact_out_bps_vs_mid",
+    "sell_exact_in_px_quote_per_base",   // SELL exact-in on BASE (spend base_notional)
+    "sell_exact_in_bps_vs_mid",
+    "buy_out_base",
+    "sell_in_base",
+    "buy_fee_quote",
+    "sell_fee_base",
+    "engine",                      // sdk | native | diff
+    "engine_buy_out_diff",         // diff mode: native − sdk BUY out (raw base units)
+    "engine_sell_in_diff",         // diff mode: native − sdk SELL in (raw base units)
+    "variable_fee_bps",            // DLMM variable fee per leg at load time (0 for CLMM)
+    "unit_check",                  // ok | reason the amounts and mid disagree on units
+    "run_id",                      // one per clamm invocation (probe or batch)
+    "trigger",                     // --subscribe: initial | changed accounts (pool;tick_array:<pubkey>)
+    "trigger_slot",                // --subscribe: slot of the latest change behind this re-quote
+    "slot",                        // context slot of the pool state the row is priced from
+    "oracle_slot",                 // context slot of the USD price source reads (NaN: none read)
+    "slot_check",                  // ok | how far apart the pool and oracle reads were
+    "buy_tick_arrays",             // start ticks of the arrays BUY ran through, space separated
+    "sell_tick_arrays",
+    "buy_ticks_crossed",           // initialized ticks BUY crossed (replayed on the raw arrays)
+    "sell_ticks_crossed",
+    "max_buy_size",                // largest BUY one swap fills, in size_unit (NaN: no tick state)
+    "max_sell_size",
+    "coverage_check",              // ok | which tick array stopped a failed leg
+    "usd_source",                  // quote (QUOTE is USD) | the price source used, e.g. pyth:<mint>:<account>
+    "usd_source_mint",             // the mint that source priced (QUOTE or BASE)
+    "usd_source_price",            // USD per usd_source_mint
+    "usd_source_conf_bps",         // Pyth confidence interval of that price (NaN for pools)
+    "usd_deviation_bps",           // largest gap of the other sources' USD per QUOTE from it (NaN: one source)
+  ];
+}
+
+/* ------------------------------- Utilities -------------------------------- */
+const toBN = (amt: number, dec: number) => new BN(new Decimal(amt).mul(Decimal.pow(10, dec)).toFixed(0));
+const fromBN = (bn: BN, dec: number) => tokenAmount(bn, "", dec).ui.toNumber();
+/** Fee paid on one leg, bps of that leg's input */
+const legFeeBps = (q: SwapQuote): number =>
+  new Decimal(q.feeAmount.toString()).div(q.amountIn.toString()).mul(1e4).toNumber();
+const bnDiff = (a: BN, b: BN): bigint => BigInt(a.toString()) - BigInt(b.toString());
+
+/** Token-2022 extensions the quotes do not model: warned about, never silently priced */
+const UNMODELLED_EXTENSIONS = ["transfer_hook", "non_transferable", "pausable", "default_account_state", "interest_bearing", "scaled_ui_amount"];
+
+/** Fee withheld, bps of the amount sent */
+const withheldBps = (sent: BN, received: BN): number =>
+  sent.isZero() ? 0 : new Decimal(sent.sub(received).toString()).div(sent.toString()).mul(1e4).toNumber();
+
+/** Transfer fees of the QUOTE and BASE mints (transfer_fee.ts); undefined when none */
+type LegFees = { quote?: TransferFee; base?: TransferFee };
+
+/** Both legs at one raw QUOTE notional: the pool-side quotes and what the trader sends / receives */
+type Roundtrip = {
+  buy: SwapQuote;             // pool side: QUOTE in net of the QUOTE transfer fee
+  sell: SwapQuote;            // pool side: QUOTE out grossed up so the notional arrives
+  buyQuoteIn: BN;             // trader sends
+  buyBaseOut: BN;             // trader receives
+  sellQuoteOut: BN;           // trader receives
+  sellBaseIn: BN;             // trader sends
+  buyTransferBps: number;     // QUOTE in + BASE out
+  sellTransferBps: number;    // BASE in + QUOTE out
+};
+
+/**
+ * BUY spends `notional` QUOTE exact-in, SELL receives `notional` QUOTE exact-out, with
+ * Token-2022 transfer fees on each of the four transfers. Without fees the trader-side
+ * amounts are the quotes' own.
+ */
+async function quoteRoundtrip(adapter: ProbeAdapter, quoteMint: string, notional: BN, fees: LegFees): Promise<Roundtrip> {
+  const buy = await adapter.quoteExactIn(quoteMint, notional.sub(transferFeeOn(notional, fees.quote)));
+  if (buy.amountOut.isZero()) throw new Error("BUY returned zero out amount");
+  const sell = await adapter.quoteExactOut(quoteMint, grossUp(notional, fees.quote));
+  if (sell.amountIn.isZero()) throw new Error("SELL returned zero in amount");
+
+  const buyQuoteIn = grossUp(buy.amountIn, fees.quote);
+  const buyBaseOut = buy.amountOut.sub(transferFeeOn(buy.amountOut, fees.base));
+  const sellQuoteOut = sell.amountOut.sub(transferFeeOn(sell.amountOut, fees.quote));
+  const sellBaseIn = grossUp(sell.amountIn, fees.base);
+  return {
+    buy, sell, buyQuoteIn, buyBaseOut, sellQuoteOut, sellBaseIn,
+    buyTransferBps: withheldBps(buyQuoteIn, buy.amountIn) + withheldBps(buy.amountOut, buyBaseOut),
+    sellTransferBps: withheldBps(sellBaseIn, sell.amountIn) + withheldBps(sell.amountOut, sellQuoteOut),
+  };
+}
+
+/** `fn` with the context slots of its account reads, when the connection reports them */
+const withSlots = <T>(slots: SlotSource | undefined, fn: () => Promise<T>, minSlot?: number): Promise<[T, SlotRange | undefined]> =>
+  slots ? slots.readSlots(fn, minSlot) : fn().then((v): [T, SlotRange | undefined] => [v, undefined]);
+
+/** Why the reads behind one row are too far apart (more than `maxSpread` slots), or "" */
+export function checkSlots(pool: SlotRange | undefined, oracle: SlotRange | undefined, maxSpread: number): string {
+  const ranges = [pool, oracle].filter((r): r is SlotRange => r !== undefined);
+  if (!ranges.length) return "";
+  const spread = Math.max(...ranges.map((r) => r.max)) - Math.min(...ranges.map((r) => r.min));
+  if (spread <= maxSpread) return "";
+  const fmt = (r: SlotRange) => (r.min === r.max ? `${r.max}` : `${r.min}..${r.max}`);
+  return `reads span ${spread} slots > ${maxSpread} (pool ${pool ? fmt(pool) : "?"}${oracle ? `, oracle ${fmt(oracle)}` : ""})`;
+}
+
+/** BUY exact-out on BASE: receive `notional` BASE (net of its transfer fee); the QUOTE the trader sends */
+async function quoteBuyExactOut(adapter: ProbeAdapter, baseMint: string, notional: BN, fees: LegFees): Promise<BN> {
+  const q = await adapter.quoteExactOut(baseMint, grossUp(notional, fees.base));
+  if (q.amountIn.isZero()) throw new Error("BUY exact-out returned zero in amount");
+  return grossUp(q.amountIn, fees.quote);
+}
+
+/** SELL exact-in on BASE: spend `notional` BASE (gross of its transfer fee); the QUOTE the trader receives */
+async function quoteSellExactIn(adapter: ProbeAdapter, baseMint: string, notional: BN, fees: LegFees): Promise<BN> {
+  const q = await adapter.quoteExactIn(baseMint, notional.sub(transferFeeOn(notional, fees.base)));
+  if (q.amountOut.isZero()) throw new Error("SELL exact-in returned zero out amount");
+  return q.amountOut.sub(transferFeeOn(q.amountOut, fees.quote));
+}
+
+/** Engines may disagree by rounding only: more than this (raw units) is flagged */
+const ENGINE_DIFF_TOLERANCE = 1n;
+
+/** What pickQuoteMint and usdRates need to know about a mint (a TokenResolver) */
+export type TokenClasses = Pick<TokenResolver, "isUsdStable" | "isBtc">;
+
+/**
+ * Pick QUOTE: prefer user, else the USD mint (USDC) if present, else another USD
+ * stablecoin, else BTC if present, else B. Classes come from the token list tags.
+ */
+export function pickQuoteMint(
+  mintA: string,
+  mintB: string,
+  tokens: TokenClasses,
+  userQuote?: string,
+  usdMint: string = USDC
+): string {
+  if (userQuote) return userQuote;
+  for (const usd of [usdMint, USDC]) {
+    if (mintA === usd || mintB === usd) return usd;
+  }
+  for (const is of [tokens.isUsdStable, tokens.isBtc]) {
+    if (is(mintA) || is(mintB)) return is(mintA) ? mintA : mintB;
+  }
+  return mintB; // default to B
+}
+
+/** The QUOTE counts as one USD: the USD mint itself, USDC, or a USD stablecoin of the token list */
+const isUsdQuote = (quoteMint: string, usdMint: string, tokens: TokenClasses): boolean =>
+  quoteMint === usdMint || quoteMint === USDC || tokens.isUsdStable(quoteMint);
+
+/** USD conversion of one probe and where it came from */
+export type UsdRates = {
+  usdPerQuote: number;
+  usdPerBase: number;
+  source: string;             // "quote" (QUOTE is USD) | label of the source used
+  sourceMint: string;         // the mint it priced ("" for quote)
+  sourcePrice: number;        // USD per sourceMint
+  confBps: number;            // Pyth confidence of that price (NaN otherwise)
+  deviationBps: number;       // largest gap of another source's USD per QUOTE from it (NaN: one source)
+  failed: string[];           // sources that did not answer, and why
+};
+
+/**
+ * One source: it prices QUOTE or BASE against usdMint, the other follows via the target pool's mid.
+ * Throws when the source cannot be read or prices neither side.
+ */
+async function ratesFrom(
+  source: PriceSource,
+  quoteMint: string,
+  baseMint: string,
+  pxQuotePerBase: number, // QUOTE per BASE from target pool
+  usdMint: string
+): Promise<{ usdPerQuote: number; usdPerBase: number; sourceMint: string; sourcePrice: number; confBps: number }> {
+  const p = await source.price(usdMint);
+  const out =
+    p.mint === quoteMint ? { usdPerQuote: p.usd, usdPerBase: pxQuotePerBase * p.usd }
+    : p.mint === baseMint ? { usdPerBase: p.usd, usdPerQuote: p.usd / pxQuotePerBase }
+    : null;
+  if (!out) throw new Error(`prices ${p.mint}, not QUOTE (${quoteMint}) or BASE (${baseMint}) against usdMint (${usdMint})`);
+  if (!(out.usdPerQuote > 0) || !Number.isFinite(out.usdPerQuote)) throw new Error(`USD per QUOTE ${out.usdPerQuote}`);
+  return { ...out, sourceMint: p.mint, sourcePrice: p.usd, confBps: p.confBps };
+}
+
+/**
+ * USD per QUOTE and per BASE: 1 when the QUOTE is the USD mint (or a USD stablecoin), else
+ * from the first of `usdSources` that answers (or, with usdMode and SOL as QUOTE, `solUsdSource`);
+ * every other source is read too, for deviationBps. Null when no source applies; throws when none answers.
+ */
+export async function usdRates(o: {
+  quoteMint: string;
+  baseMint: string;
+  pxQuotePerBase: number;
+  usdMint: string;
+  tokens: TokenClasses;
+  usdMode: boolean;
+  usdSources?: PriceSource[];
+  solUsdSource?: PriceSource;
+}): Promise<UsdRates | null> {
+  if (isUsdQuote(o.quoteMint, o.usdMint, o.tokens)) {
+    return {
+      usdPerQuote: 1, usdPerBase: o.pxQuotePerBase, source: "quote",
+      sourceMint: "", sourcePrice: Number.NaN, confBps: Number.NaN, deviationBps: Number.NaN, failed: [],
+    };
+  }
+  // --usdMode with SOL as quote: fall back to --solUsdSource
+  const sources = o.usdSources?.length ? o.usdSources
+    : o.usdMode && o.quoteMint === WSOL && o.solUsdSource ? [o.solUsdSource]
+    : [];
+  if (!sources.length) return null;
+
+  const answers: Array<Awaited<ReturnType<typeof ratesFrom>> & { source: string }> = [];
+  const failed: string[] = [];
+  for (const source of sources) {
+    try {
+      answers.push({ ...(await ratesFrom(source, o.quoteMint, o.baseMint, o.pxQuotePerBase, o.usdMint)), source: source.label });
+    } catch (e: unknown) {
+      failed.push(`${source.label}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  const [used, ...others] = answers;
+  if (!used) throw new Error(`No USD price source answered: ${failed.join("; ")}`);
+  const deviationBps = others.length
+    ? Math.max(...others.map((a) => Math.abs(a.usdPerQuote / used.usdPerQuote - 1) * 1e4))
+    : Number.NaN;
+  return { ...used, deviationBps, failed };
+}
+
+/* --------------------------------- Main ----------------------------------- */
+export async function runProbe(adapter: ProbeAdapter, opts: ProbeOptions): Promise<ProbeResult> {
+  // Tick-level state is read with the pool, in the same slot window
+  const [[info, state], poolSlots] = await withSlots(opts.slots, async (): Promise<[PoolInfo, ClmmState | undefined]> => {
+    const info = await adapter.load();
+    if (!opts.coverageArrays || !adapter.clmmState) return [info, undefined];
+    try {
+      return [info, await adapter.clmmState(opts.coverageArrays)];
+    } catch (e: unknown) {
+      if (!opts.quiet) console.warn(`⚠️  [coverage] tick arrays not read: ${e instanceof Error ? e.message : String(e)}`);
+      return [info, undefined];
+    }
+  });
+
+  if (opts.depthDump && opts.depthDump > 0) {
+    if (adapter.clmmState) {
+      const state = await adapter.clmmState(opts.depthDump);
+      printProfile(liquidityProfile(state), state);
+    } else {
+      console.warn(`--depthDump is not supported for dex=${adapter.dex}; skipping`);
+    }
+  }
+
+  const { mintA, mintB, decA, decB } = info;
+  if (opts.pair && !(opts.pair.includes(mintA) && opts.pair.includes(mintB))) {
+    throw new Error(`Pool ${info.pool} holds ${mintA}/${mintB}, not ${opts.pair.join("/")}`);
+  }
+  const { tokens } = opts;
+  await tokens.resolve([mintA, mintB]);
+  const symbolA = tokens.symbol(mintA);
+  const symbolB = tokens.symbol(mintB);
+
+  // Fees (one leg and roundtrip). DLMM: base + variable at load time; per-size fee comes from the quotes.
+  const feeBps_one_leg = info.feePpm / 100;
+  const variableFeeBps_one_leg = (info.variableFeePpm ?? 0) / 100;
+  const feeBps_roundtrip = (feeBps_one_leg + variableFeeBps_one_leg) * 2;
+
+  // QUOTE & BASE
+  const usdMint = opts.usdMint || USDC;
+  const quoteMint = pickQuoteMint(mintA, mintB, tokens, opts.quoteMint, usdMint);
+  if (quoteMint !== mintA && quoteMint !== mintB) {
+    throw new Error(`--quoteMint ${quoteMint} is not one of the pool mints (${mintA}, ${mintB})`);
+  }
+  const quoteIsA = quoteMint === mintA;
+  const baseMint = quoteIsA ? mintB : mintA;
+  const baseDecs = quoteIsA ? decB : decA;
+  const quoteDecimals = quoteIsA ? decA : decB;
+  const quoteSymbol = tokens.symbol(quoteMint) || "QUOTE";
+  const baseSymbol = tokens.symbol(baseMint) || "BASE";
+
+  // Token-2022: transfer fees are priced into both legs; other transfer-time behaviour is only flagged
+  const [quoteTransferFee, baseTransferFee] = await tokens.transferFees([quoteMint, baseMint]);
+  const fees: LegFees = { quote: quoteTransferFee, base: baseTransferFee };
+  if (!opts.quiet) {
+    for (const [mint, sym] of [[quoteMint, quoteSymbol], [baseMint, baseSymbol]]) {
+      const unmodelled = tokens.extensions(mint).filter((e) => UNMODELLED_EXTENSIONS.includes(e));
+      if (unmodelled.length) console.warn(`⚠️  [token-2022] ${sym} has ${unmodelled.join(", ")}: not reflected in the quotes`);
+    }
+  }
+
+  // Mid QUOTE per BASE from target pool
+  const pxBperA = adapter.midPrice();
+  const midQuotePerBase = quoteIsA ? new Decimal(1).div(pxBperA) : pxBperA;
+  const pxQuotePerBase = midQuotePerBase.toNumber();
+
+  // Units: every decimals reading must agree before any amount is scaled with them
+  const decimalsIssue = checkDecimals(info.decimalsBy);
+  if (decimalsIssue && !opts.quiet) console.warn(`⚠️  [units] ${decimalsIssue}`);
+
+  // Decide units (defaults: size=usd if the QUOTE is USD; else quote. price=quote if no USD, else usd)
+  const quoteIsUsd = isUsdQuote(quoteMint, usdMint, tokens);
+  let sizeUnit: SizeUnit = opts.sizeUnit ?? (quoteIsUsd ? "usd" : "quote");
+  let priceUnit: PriceUnit = opts.priceUnit ?? (quoteIsUsd ? "usd" : "quote");
+
+  // If --usdMode is set, prefer USD sizing/pricing unless user explicitly set units
+  if (opts.usdMode) {
+    if (opts.sizeUnit === undefined) sizeUnit = "usd";
+    if (opts.priceUnit === undefined) priceUnit = "usd";
+  }
+
+  // USD conversions (needed if sizeUnit=usd or priceUnit=usd). Unknown stays NaN in the CSV.
+  let usdPerQuote = Number.NaN;     // USD per QUOTE (e.g., USD/BTC)
+  let usdPerBase  = Number.NaN;     // USD per BASE  (e.g., USD/SOL)
+  let usd: UsdRates | undefined;    // where the rate came from (usd_* columns)
+  let haveUSD = false;
+  let oracleSlots: SlotRange | undefined;
+
+  const needUSD = (sizeUnit === "usd") || (priceUnit === "usd");
+  if (needUSD) {
+    // Oracle reads are pinned at or after the pool's slot
+    const [rates, slots] = await withSlots(opts.slots, () => usdRates({ ...opts, quoteMint, baseMint, pxQuotePerBase, usdMint }), poolSlots?.max);
+    oracleSlots = slots;
+    if (!rates) {
+      const need = tokens.symbol(quoteMint) || quoteMint;
+      throw new Error(
+        `USD conversion needed (sizeUnit=${sizeUnit}, priceUnit=${priceUnit}) but QUOTE is not USD (${need}). ` +
+        `Provide --usdSources (or --oraclePool) pricing QUOTE or BASE against usdMint (${usdMint}).`
+      );
+    }
+    ({ usdPerQuote, usdPerBase } = rates);
+    usd = rates;
+    haveUSD = true;
+    if (!opts.quiet) {
+      for (const f of rates.failed) console.warn(`⚠️  [usd] source skipped: ${f}`);
+      if (rates.source !== "quote") {
+        const conf = Number.isNaN(rates.confBps) ? "" : ` ±${rates.confBps.toFixed(2)}bps`;
+        console.log(`💰 Using live ${quoteSymbol}/USD rate ${usdPerQuote.toFixed(8)} from ${rates.source}${conf}`);
+      }
+      if (rates.deviationBps > (opts.maxUsdDeviationBps ?? Number.POSITIVE_INFINITY)) {
+        console.warn(`⚠️  [usd] price sources ${rates.deviationBps.toFixed(2)} bps apart (> ${opts.maxUsdDeviationBps} bps)`);
+      }
+    }
+  }
+
+  // Same-slot consistency: the pool state and the USD rate should describe one moment
+  const slot = poolSlots?.max ?? Number.NaN;
+  const oracleSlot = oracleSlots?.max ?? Number.NaN;
+  const slotIssue = checkSlots(poolSlots, oracleSlots, opts.maxSlotSpread);
+  if (slotIssue && !opts.quiet) console.warn(`⚠️  [slots] ${slotIssue}${opts.slotCheck === "strict" ? ": rows rejected" : ""}`);
+  const slotCols = (): Array<string | number> => [slot, oracleSlot, slotIssue || (poolSlots ? "ok" : "")];
+  const usdCols = (): Array<string | number> =>
+    [usd?.source ?? "", usd?.sourceMint ?? "", usd?.sourcePrice ?? Number.NaN, usd?.confBps ?? Number.NaN, usd?.deviationBps ?? Number.NaN];
+
+  // Tick-array coverage: the most one swap fills each way (BUY sends QUOTE in, SELL BASE), in size units
+  const buyFill: MaxFill | undefined = state && maxFill(state, quoteIsA, adapter.maxSwapArrays);
+  const sellFill: MaxFill | undefined = state && maxFill(state, !quoteIsA, adapter.maxSwapArrays);
+  const inSizeUnit = (quoteRaw: BN): number => {
+    const q = fromBN(quoteRaw, quoteDecimals);
+    return sizeUnit === "usd" ? (haveUSD ? q * usdPerQuote : Number.NaN) : q;
+  };
+  const maxBuySize = buyFill ? inSizeUnit(grossUp(new BN(buyFill.amountIn.toString()), fees.quote)) : Number.NaN;
+  const sellOut = new BN((sellFill?.amountOut ?? 0n).toString());
+  const maxSellSize = sellFill ? inSizeUnit(sellOut.sub(transferFeeOn(sellOut, fees.quote))) : Number.NaN;
+  const fmtSize = (x: number) => x.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  /** The legs of a failed size that the tick arrays cannot fill, and what stops them */
+  const coverageIssue = (size: number): string =>
+    ([["BUY", buyFill, maxBuySize], ["SELL", sellFill, maxSellSize]] as const)
+      .filter(([, fill, max]) => fill && size > max)
+      .map(([leg, fill, max]) => `${leg} stops at ${formatBlocker(fill!.blocker)}, max ${fmtSize(max)} ${sizeUnit}`)
+      .join("; ");
+  /** Arrays the quote ran through (the venue's own list when it reports one) and initialized ticks crossed */
+  const pathOf = (q: SwapQuote, exactIn: boolean, aToB: boolean) => {
+    const replay = state && replayQuote(state, BigInt((exactIn ? q.amountIn : q.amountOut).toString()), exactIn, aToB);
+    return { arrays: q.tickArrays ?? replay?.arrays, ticksCrossed: replay?.ticksCrossed ?? Number.NaN };
+  };
+
+  // Header
+  if (!opts.quiet) {
+    console.log("Pool Summary");
+    console.log("------------");
+    console.log(`Pool:                 ${info.pool}  (${symbolA}/${symbolB})  [${info.dex}]`);
+    console.log(`Program:              ${info.programId}`);
+    console.log(`tickSpacing:          ${info.tickSpacing}`);
+    console.log(`feeRate (ppm):        ${info.feePpm}   (~${feeBps_one_leg.toFixed(4)} bps each leg)`);
+    if (info.dynamicFee) {
+      console.log(`variableFee (ppm):    ${info.variableFeePpm ?? 0}   (now; grows with bins crossed, fee bps taken per quote)`);
+    }
+    console.log(`protocolFeeRate(ppm): ${info.protocolFeePpm}   (LP cut of fee)`);
+    console.log(`liquidity (u128):     ${info.liquidity.toString()}`);
+    console.log(`sqrtPrice_x64 (u128): ${info.sqrtPriceX64.toString()}`);
+    console.log(`tickCurrentIndex:     ${info.tickCurrent}`);
+    if (poolSlots) {
+      const span = poolSlots.min === poolSlots.max ? "" : ` (reads ${poolSlots.min}..${poolSlots.max})`;
+      console.log(`Slot:                 ${slot}${span}${oracleSlots ? `   oracle ${oracleSlot}` : ""}`);
+    }
+    if (state) {
+      const missing = state.missingArrays.length ? `; uninitialized: ${state.missingArrays.join(" ")}` : "";
+      console.log(`Tick arrays:          ±${opts.coverageArrays} read, ticks ${state.lowerTick}..${state.upperTick} covered${missing}`);
+      console.log(
+        `Max in one swap:      BUY ${fmtSize(maxBuySize)} / SELL ${fmtSize(maxSellSize)} ${sizeUnit}` +
+        `${adapter.maxSwapArrays ? ` (${adapter.maxSwapArrays} tick arrays per swap)` : ""}`
+      );
+    }
+    console.log(`quoteMint:            ${quoteMint} (${quoteSymbol}) dec=${quoteDecimals}`);
+    console.log(`baseMint:             ${baseMint} (${baseSymbol}) dec=${baseDecs}`);
+    for (const [sym, f] of [[quoteSymbol, fees.quote], [baseSymbol, fees.base]] as const) {
+      if (f) console.log(`transferFee ${sym.padEnd(8)} ${f.bps} bps per transfer, max ${f.maximumFee} raw`);
+    }
+    console.log(`Size Unit:            ${sizeUnit}`);
+    console.log(`Price Unit:           ${priceUnit}`);
+    console.log(`Mid QUOTE/BASE:       ${pxQuotePerBase.toFixed(12)} ${quoteSymbol}/${baseSymbol}`);
+    if (haveUSD) {
+      console.log(`USD mint (oracle):    ${usdMint}${usd?.source === "quote" ? "  (QUOTE is USD)" : `  via ${usd?.source}`}`);
+      console.log(`Mid (USD per BASE):   ${usdPerBase.toFixed(8)}\n`);
+    } else {
+      console.log("");
+    }
+
+    if (opts.targets) {
+      console.log(`Max notional under target (${opts.targets.basis} bps, sizes in ${sizeUnit}):`);
+    } else if (priceUnit === "usd") {
+      console.log("Roundtrip results (prices in USD/BASE):");
+      console.log("  Size     Unit   Mid(USD/BASE)   BuyPx       SellPx      RT bps   Fee bps   Impact bps");
+    } else {
+      console.log(`Roundtrip results (prices in ${quoteSymbol}/${baseSymbol}):`);
+      console.log(`  Size     Unit   Mid(${quoteSymbol}/${baseSymbol})   BuyPx       SellPx      RT bps   Fee bps   Impact bps`);
+    }
+  }
+
+  const out = opts.out;
+
+  if (opts.crossCheck) await opts.crossCheck.load();
+  let diffFlagged = 0;
+
+  const poolCols = (): Array<string | number> => [
+    new Date().toISOString(),
+    info.dex,
+    info.pool,
+    info.programId,
+    info.tickSpacing,
+    info.feePpm,
+    feeBps_one_leg.toFixed(4),
+    info.protocolFeePpm,
+    info.liquidity.toString(),
+    info.sqrtPriceX64.toString(),
+    info.tickCurrent,
+    mintA, decA, symbolA,
+    mintB, decB, symbolB,
+    baseMint, baseDecs, baseSymbol,
+    quoteMint, quoteDecimals, quoteSymbol,
+    sizeUnit, priceUnit,
+  ];
+
+  if (opts.targets) {
+    if (sizeUnit === "usd" && !haveUSD) throw new Error("USD conversion not available (missing oracle).");
+    if (slotIssue && opts.slotCheck === "strict") throw new Error(`slot spread: ${slotIssue}`);
+    const toQuote = (size: number) => (sizeUnit === "usd" ? size / usdPerQuote : size);
+    const fromQuote = (q: number) => (sizeUnit === "usd" ? q * usdPerQuote : q);
+
+    // Both legs at one QUOTE notional, costs in bps of mid; null when the pool cannot fill it,
+    // other failures (and strict unit mismatches) end the target as status error
+    const measure = async (quoteNotional: number): Promise<Measurement | null> => {
+      let rt: Roundtrip;
+      try {
+        rt = await quoteRoundtrip(adapter, quoteMint, toBN(quoteNotional, quoteDecimals), fees);
+      } catch (e: unknown) {
+        if (isLiquidityError(e)) return null;
+        throw e;
+      }
+      const { buy, sell } = rt;
+      const buyTrace = traceLeg("buy",
+        tokenAmount(rt.buyQuoteIn, quoteMint, quoteDecimals), tokenAmount(rt.buyBaseOut, baseMint, baseDecs), midQuotePerBase);
+      const sellTrace = traceLeg("sell",
+        tokenAmount(rt.sellQuoteOut, quoteMint, quoteDecimals), tokenAmount(rt.sellBaseIn, baseMint, baseDecs), midQuotePerBase);
+      const unitIssue = [decimalsIssue, checkLeg(buyTrace), checkLeg(sellTrace)].filter(Boolean).join("; ");
+      if (unitIssue && opts.unitCheck === "strict") throw new Error(`unit mismatch: ${unitIssue}`);
+      if (opts.sleepMs > 0) await sleep(opts.sleepMs);
+
+      const buyPx = buyTrace.pxQuotePerBase.toNumber();
+      const sellPx = sellTrace.pxQuotePerBase.toNumber();
+      const legFee = feeBps_one_leg + variableFeeBps_one_leg;
+      return {
+        buyBps: toBps((buyPx - pxQuotePerBase) / pxQuotePerBase),
+        sellBps: toBps((pxQuotePerBase - sellPx) / pxQuotePerBase),
+        rtBps: toBps((buyPx - sellPx) / pxQuotePerBase),
+        // Transfer fees count as fees: --targetBasis impact excludes them
+        buyFeeBps: (info.dynamicFee ? legFeeBps(buy) : legFee) + rt.buyTransferBps,
+        sellFeeBps: (info.dynamicFee ? legFeeBps(sell) : legFee) + rt.sellTransferBps,
+      };
+    };
+
+    // Bracketing starts at the smallest ladder size
+    const start = toQuote(Math.min(...opts.sizes));
+    const targets = await solveTargets(measure, opts.targets.bps, opts.targets.basis, start);
+
+    for (const t of targets) {
+      const maxSize = fromQuote(t.maxQuote);
+      if (!opts.quiet) {
+        const sizeStr = maxSize.toLocaleString(undefined, { maximumFractionDigits: 6 }).padStart(16);
+        console.log(
+          `  ${t.side.padEnd(9)} ≤${String(t.targetBps).padStart(6)}bps  ${sizeStr} ${sizeUnit.padEnd(5)}  ` +
+          `at=${t.achievedBps.toFixed(4)}bps  ${t.status}  (${t.iterations} evals)${t.reason ? `  ${t.reason}` : ""}`
+        );
+      }
+      out?.write([
+        new Date().toISOString(), opts.runId, info.dex, info.pool,
+        baseMint, quoteMint, sizeUnit,
+        t.targetBps, t.basis, t.side,
+        t.maxQuote, haveUSD ? t.maxQuote * usdPerQuote : Number.NaN, maxSize,
+        t.achievedBps, t.iterations, t.status, t.reason,
+        ...slotCols(),
+        ...usdCols(),
+      ]);
+    }
+    return { info, quoteMint, baseMint, sizeUnit, priceUnit, rows: [], targets };
+  }
+
+  const rows: RoundtripRow[] = [];
+  for (const size of opts.sizes) {
+    try {
+      // Notional in QUOTE units: BUY spends it exact-in, SELL receives it exact-out
+      if (sizeUnit === "usd" && !haveUSD) throw new Error("USD conversion not available (missing oracle).");
+      if (slotIssue && opts.slotCheck === "strict") throw new Error(`slot spread: ${slotIssue}`);
+      const quoteNotional = sizeUnit === "usd" ? size / usdPerQuote : size;
+
+      // BUY: spend QUOTE to receive BASE (QUOTE exact-in); SELL: deliver BASE to receive exact QUOTE (QUOTE exact-out)
+      const rt = await quoteRoundtrip(adapter, quoteMint, toBN(quoteNotional, quoteDecimals), fees);
+      const { buy, sell } = rt;
+      const buyOutBase = fromBN(rt.buyBaseOut, baseDecs);
+      const buyFeeQuote = fromBN(buy.feeAmount, quoteDecimals);
+      const sellInBase = fromBN(rt.sellBaseIn, baseDecs);
+      const sellFeeBase = fromBN(sell.feeAmount, baseDecs);
+      const buyPath = pathOf(buy, true, quoteIsA);
+      const sellPath = pathOf(sell, false, !quoteIsA);
+
+      // Exec prices straight from the raw amounts the trader sends and receives
+      const buyTrace = traceLeg("buy",
+        tokenAmount(rt.buyQuoteIn, quoteMint, quoteDecimals), tokenAmount(rt.buyBaseOut, baseMint, baseDecs), midQuotePerBase);
+      const sellTrace = traceLeg("sell",
+        tokenAmount(rt.sellQuoteOut, quoteMint, quoteDecimals), tokenAmount(rt.sellBaseIn, baseMint, baseDecs), midQuotePerBase);
+
+      // The other two quote types, at the notional's BASE equivalent; a failure only blanks its columns
+      const baseNotional = toBN(quoteNotional / pxQuotePerBase, baseDecs);
+      const baseSide = async (side: "buy" | "sell", quote: () => Promise<BN>) => {
+        try {
+          const quoteAmt = tokenAmount(await quote(), quoteMint, quoteDecimals);
+          return traceLeg(side, quoteAmt, tokenAmount(baseNotional, baseMint, baseDecs), midQuotePerBase);
+        } catch (e: unknown) {
+          if (!opts.quiet) console.warn(`  [quotes] size=${size}: ${side.toUpperCase()} exact-${side === "buy" ? "out" : "in"} on BASE failed: ${e instanceof Error ? e.message : String(e)}`);
+          return undefined;
+        }
+      };
+      const buyOutTrace = await baseSide("buy", () => quoteBuyExactOut(adapter, baseMint, baseNotional, fees));
+      const sellInTrace = await baseSide("sell", () => quoteSellExactIn(adapter, baseMint, baseNotional, fees));
+
+      const traces = [buyTrace, sellTrace, buyOutTrace, sellInTrace].filter((t) => t !== undefined);
+      if (opts.unitCheck === "diagnose" && !opts.quiet) {
+        for (const t of traces) formatTrace(t, quoteSymbol, baseSymbol).forEach((l) => console.log(l));
+      }
+      const unitIssue = [decimalsIssue, ...traces.map(checkLeg)].filter(Boolean).join("; ");
+      if (unitIssue) {
+        if (opts.unitCheck === "strict") throw new Error(`unit mismatch: ${unitIssue}`);
+        if (!opts.quiet) console.warn(`  [units] size=${size}: ${unitIssue}`);
+      }
+
+      // --engine diff: same two legs through the native engine
+      let buyOutDiff: bigint | number = Number.NaN;
+      let sellInDiff: bigint | number = Number.NaN;
+      if (opts.crossCheck) {
+        try {
+          const nBuy = await opts.crossCheck.quoteExactIn(quoteMint, buy.amountIn);
+          const nSell = await opts.crossCheck.quoteExactOut(quoteMint, sell.amountOut);
+          buyOutDiff = bnDiff(nBuy.amountOut, buy.amountOut);
+          sellInDiff = bnDiff(nSell.amountIn, sell.amountIn);
+        } catch (e: unknown) {
+          if (!opts.quiet) console.warn(`  [engine-diff] native engine failed: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        const abs = (x: bigint | number) => (typeof x === "bigint" ? (x < 0n ? -x : x) : Number.POSITIVE_INFINITY);
+        if (abs(buyOutDiff) > ENGINE_DIFF_TOLERANCE || abs(sellInDiff) > ENGINE_DIFF_TOLERANCE) {
+          diffFlagged++;
+          if (!opts.quiet) console.warn(`  [engine-diff] size=${size}: buy out Δ=${buyOutDiff}  sell in Δ=${sellInDiff} (native − sdk, raw)`);
+        }
+      }
+
+      // Prices in QUOTE and (if available) USD per BASE
+      const mid_quote = pxQuotePerBase;
+      const buy_quote = buyTrace.pxQuotePerBase.toNumber();
+      const sell_quote = sellTrace.pxQuotePerBase.toNumber();
+
+      const mid_usd  = haveUSD ? usdPerBase : Number.NaN;      // USD per BASE
+      const buy_usd  = haveUSD ? buy_quote * usdPerQuote : Number.NaN;
+      const sell_usd = haveUSD ? sell_quote * usdPerQuote : Number.NaN;
+
+      const mid    = (priceUnit === "quote") ? mid_quote : mid_usd;
+      const buyPx  = (priceUnit === "quote") ? buy_quote : buy_usd;
+      const sellPx = (priceUnit === "quote") ? sell_quote : sell_usd;
+
+      const rt_bps = toBps((buyPx - sellPx) / mid);
+      // One-sided, from QUOTE prices (the same bps in either price unit)
+      const buy_bps = toBps((buy_quote - mid_quote) / mid_quote);
+      const sell_bps = toBps((mid_quote - sell_quote) / mid_quote);
+      const buy_out_quote = buyOutTrace?.pxQuotePerBase.toNumber() ?? Number.NaN;
+      const sell_in_quote = sellInTrace?.pxQuotePerBase.toNumber() ?? Number.NaN;
+      const buy_out_bps = toBps((buy_out_quote - mid_quote) / mid_quote);
+      const sell_in_bps = toBps((mid_quote - sell_in_quote) / mid_quote);
+      const fee_bps = info.dynamicFee ? legFeeBps(buy) + legFeeBps(sell) : feeBps_roundtrip;
+      const transfer_fee_bps = rt.buyTransferBps + rt.sellTransferBps;
+      const impact_bps = Math.max(rt_bps - fee_bps - transfer_fee_bps, 0);
+
+      rows.push({
+        size, mid, buyPx, sellPx, rtBps: rt_bps,
+        buyBps: buy_bps, sellBps: sell_bps, buyExactOutBps: buy_out_bps, sellExactInBps: sell_in_bps,
+        feeBps: fee_bps, transferFeeBps: transfer_fee_bps, impactBps: impact_bps,
+      });
+
+      if (!opts.quiet) {
+        const fmt = (x: number, d: number) => x.toFixed(d);
+        const sizeStr = size.toLocaleString(undefined, { maximumFractionDigits: 6 }).padStart(8);
+        const d = priceUnit === "usd" ? 8 : 12;
+        console.log(
+          `RT ${sizeStr}  ${sizeUnit.padEnd(5)}  mid=${fmt(mid, d)}  buy=${fmt(buyPx, d)}  sell=${fmt(sellPx, d)}  ` +
+          `rt=${rt_bps.toFixed(4)}bps (buy ${buy_bps.toFixed(4)} / sell ${sell_bps.toFixed(4)})  fee=${fee_bps.toFixed(4)}bps  ` +
+          `${fees.quote || fees.base ? `xfer=${transfer_fee_bps.toFixed(4)}bps  ` : ""}impact=${impact_bps.toFixed(4)}bps`
+        );
+        const inUnit = (px: number) => (priceUnit === "quote" ? px : px * usdPerQuote);
+        console.log(
+          `   on BASE ${fromBN(baseNotional, baseDecs)}:  buy exact-out=${fmt(inUnit(buy_out_quote), d)} (${buy_out_bps.toFixed(4)}bps)  ` +
+          `sell exact-in=${fmt(inUnit(sell_in_quote), d)} (${sell_in_bps.toFixed(4)}bps)`
+        );
+        if (buyPath.arrays || sellPath.arrays) {
+          const leg = (p: { arrays?: number[]; ticksCrossed: number }) =>
+            `[${formatArrays(p.arrays)}]${Number.isNaN(p.ticksCrossed) ? "" : ` ${p.ticksCrossed} ticks`}`;
+          console.log(`   tick arrays: buy ${leg(buyPath)}  sell ${leg(sellPath)}`);
+        }
+      }
+
+      out?.write([
+        ...poolCols(),
+        mid_quote,
+        mid_usd,
+        buy_quote,
+        sell_quote,
+        buy_usd,
+        sell_usd,
+        usdPerQuote,
+        size,
+        rt_bps,
+        fee_bps,
+        transfer_fee_bps,
+        impact_bps,
+        buy_bps,
+        sell_bps,
+        fromBN(baseNotional, baseDecs),
+        buy_out_quote,
+        buy_out_bps,
+        sell_in_quote,
+        sell_in_bps,
+        buyOutBase,
+        sellInBase,
+        buyFeeQuote,
+        sellFeeBase,
+        opts.engine,
+        String(buyOutDiff),
+        String(sellInDiff),
+        variableFeeBps_one_leg,
+        unitIssue || "ok",
+        opts.runId,
+        opts.trigger?.accounts ?? "",
+        opts.trigger?.slot ?? "",
+        ...slotCols(),
+        formatArrays(buyPath.arrays),
+        formatArrays(sellPath.arrays),
+        buyPath.ticksCrossed,
+        sellPath.ticksCrossed,
+        maxBuySize,
+        maxSellSize,
+        state ? "ok" : "",
+        ...usdCols(),
+      ]);
+
+      if (opts.sleepMs > 0) await sleep(opts.sleepMs);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const nan = Number.NaN;
+      rows.push({
+        size, mid: nan, buyPx: nan, sellPx: nan, rtBps: nan,
+        buyBps: nan, sellBps: nan, buyExactOutBps: nan, sellExactInBps: nan,
+        feeBps: feeBps_roundtrip, transferFeeBps: nan, impactBps: nan, error: msg,
+      });
+      const issue = coverageIssue(size);
+      if (!opts.quiet) {
+        console.log(`RT (size=${size} ${sizeUnit}) error: ${msg}`);
+        if (issue) console.log(`   coverage: ${issue}`);
+      }
+      out?.write([
+        ...poolCols(),
+        Number.NaN, Number.NaN, Number.NaN, Number.NaN, Number.NaN, Number.NaN,
+        usdPerQuote, size,
+        Number.NaN, feeBps_roundtrip, Number.NaN, Number.NaN,
+        Number.NaN, Number.NaN, Number.NaN, Number.NaN, Number.NaN, Number.NaN, Number.NaN,
+        Number.NaN, Number.NaN, Number.NaN, Number.NaN,
+        opts.engine, Number.NaN, Number.NaN,
+        variableFeeBps_one_leg,
+        msg.startsWith("unit mismatch: ") ? msg.slice("unit mismatch: ".length) : "",
+        opts.runId,
+        opts.trigger?.accounts ?? "",
+        opts.trigger?.slot ?? "",
+        ...slotCols(),
+        "", "", Number.NaN, Number.NaN,
+        maxBuySize, maxSellSize,
+        issue || (state ? "ok" : ""),
+        ...usdCols(),
+      ]);
+    }
+  }
+
+  if (opts.crossCheck) {
+    const n = opts.sizes.length;
+    console.log(`Engine diff: ${diffFlagged}/${n} sizes differ from the SDK by more than ${ENGINE_DIFF_TOLERANCE} raw unit(s)`);
+    if (diffFlagged > 0) process.exitCode = 1;
+  }
+
+  return { info, quoteMint, baseMint, sizeUnit, priceUnit, rows };
+}
@@ -0,0 +1,247 @@
+/**
+ * Raydium CLMM adapter for the probe (single-pool, RPC-only, no routing).
+ * - Pulls pool + tick arrays via @raydium-io/raydium-sdk-v2 (RPC)
+ * - Quotes via PoolUtils.getOutputAmountAndRemainAccounts / getInputAmountAndRemainAccounts
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+import Decimal from "decimal.js";
+import { Raydium, PoolUtils } from "@raydium-io/raydium-sdk-v2";
+
+import type { PoolInfo, ProbeAdapter, SwapQuote, WatchedAccount } from "./adapter.js";
+import { coverageFrom, type ClmmState } from "./engine.js";
+import {
+  RAYDIUM_TICK_ARRAY_SIZE,
+  decodeRaydiumAmmConfig,
+  decodeRaydiumPool,
+  decodeRaydiumTickArray,
+  fetchTickArrays,
+  raydiumTickArrayPda,
+  tickArrayStarts,
+} from "./layouts.js";
+import { snapshotExtra } from "./snapshot.js";
+import { tokensFor } from "./tokens.js";
+import { pxBperA_fromSqrt } from "./utils.js";
+
+function normalizeFeePpm(raw: unknown): number {
+  const n = Number(raw ?? 0);
+  if (!Number.isFinite(n) || n === 0) return 0;
+  if (n > 0 && n < 1) return Math.round(n * 1_000_000); // fraction -> ppm
+  return Math.round(n); // already ppm
+}
+
+/** Which tick-array starts a quote's remaining accounts traverse (reported with each quote). */
+export function extractTickArrayStartsUsed(rem: any, tickArrayCache: Record<string, any>): number[] {
+  const candidates: any[] =
+    rem?.tickArrayAccounts ??
+    rem?.tickArrayKeys ??
+    rem?.tickArrayAddresses ??
+    rem?.accounts ??
+    rem ??
+    [];
+  const toAddr = (x: any) =>
+    x?.toBase58?.() ||
+    x?.address?.toBase58?.() ||
+    x?.pubkey?.toBase58?.() ||
+    x?.address ||
+    (typeof x === "string" ? x : null);
+
+  const addrs = (Array.isArray(candidates) ? candidates : []).map(toAddr).filter(Boolean) as string[];
+  if (addrs.length === 0) return [];
+
+  const addrToStart: Record<string, number> = {};
+  for (const [startStr, ta] of Object.entries(tickArrayCache)) {
+    const addr =
+      (ta as any)?.address?.toBase58?.() ||
+      (ta as any)?.pubkey?.toBase58?.() ||
+      (ta as any)?.id?.toBase58?.() ||
+      (ta as any)?.address ||
+      null;
+    if (addr) addrToStart[String(addr)] = Number(startStr);
+  }
+
+  const starts = addrs.map((a) => addrToStart[a]).filter((n) => Number.isFinite(n)) as number[];
+  return Array.from(new Set<number>(starts)).sort((a, b) => a - b);
+}
+
+// ---- type guard ----
+type MinimalClmmInfo = {
+  id: string;
+  programId: any;
+  mintA: any;
+  mintB: any;
+  config: any;
+  price: any;
+};
+function isConcentratedPool(p: any): p is MinimalClmmInfo {
+  return p && "config" in p && "mintA" in p && "mintB" in p && "id" in p && "programId" in p && "price" in p;
+}
+
+export function mkRaydiumAdapter(conn: Connection, poolAddress: string): ProbeAdapter {
+  let clmmInfo: any = null;
+  let tickArrayCache: Record<string, any> = {};
+  let info: PoolInfo | null = null;
+  let apiPool: any = null;       // static metadata: fetched once, reused by reloads (watch mode)
+
+  const loaded = () => {
+    if (!clmmInfo || !info) throw new Error("Raydium adapter: call load() first");
+    return { clmmInfo, info };
+  };
+
+  return {
+    dex: "raydium",
+
+    async load() {
+      // Load pool metadata (Raydium API; kept in snapshots) then compute-ready on-chain info
+      apiPool ??= await snapshotExtra(conn, `raydium.apiPool.${poolAddress}`, async () => {
+        const raydium = await Raydium.load({
+          connection: conn as any,
+          disableFeatureCheck: true,
+          disableLoadToken: true,
+        });
+        const apiPools = await raydium.api.fetchPoolById({ ids: poolAddress });
+        if (!apiPools?.length) throw new Error("Pool not found via Raydium API metadata");
+        return apiPools[0];
+      });
+      if (!isConcentratedPool(apiPool)) {
+        throw new Error("Pool is not a CLMM (concentrated) pool or missing `config` field.");
+      }
+
+      const poolPick: MinimalClmmInfo = {
+        id: apiPool.id,
+        programId: apiPool.programId,
+        mintA: apiPool.mintA,
+        mintB: apiPool.mintB,
+        config: apiPool.config,
+        price: apiPool.price,
+      };
+
+      clmmInfo = await PoolUtils.fetchComputeClmmInfo({
+        connection: conn as any,
+        poolInfo: poolPick as any,
+      });
+
+      // Tick arrays cache for this pool
+      const taCacheMap = await PoolUtils.fetchMultiplePoolTickArrays({
+        connection: conn as any,
+        poolKeys: [clmmInfo],
+      });
+      tickArrayCache = (taCacheMap as any)[poolAddress] || {};
+
+      const mintA =
+        (apiPool as any).mintA?.address ||
+        clmmInfo.mintA?.mint?.toString?.() ||
+        clmmInfo.mintA?.toString?.();
+      const mintB =
+        (apiPool as any).mintB?.address ||
+        clmmInfo.mintB?.mint?.toString?.() ||
+        clmmInfo.mintB?.toString?.();
+
+      // Decimals from three independent places; the probe refuses to trust them if they disagree
+      const [decA, decB] = await tokensFor(conn).decimalsOf([mintA, mintB]);
+      const decimalsBy: Record<string, [number, number]> = { mint: [decA, decB] };
+      const poolAcc = await conn.getAccountInfo(new PublicKey(poolAddress));
+      if (poolAcc) {
+        const raw = decodeRaydiumPool(poolAcc.data);
+        decimalsBy.pool = [raw.decA, raw.decB];
+      }
+      const apiDecA = Number((apiPool as any).mintA?.decimals);
+      const apiDecB = Number((apiPool as any).mintB?.decimals);
+      if (Number.isInteger(apiDecA) && Number.isInteger(apiDecB)) decimalsBy.api = [apiDecA, apiDecB];
+
+      info = {
+        dex: "raydium",
+        pool: poolAddress,
+        programId: (apiPool as any).programId?.address || clmmInfo.programId?.toBase58?.() || "UNKNOWN",
+        tickSpacing: Number((apiPool as any).tickSpacing ?? clmmInfo.tickSpacing ?? 0),
+        feePpm: normalizeFeePpm((apiPool as any).feeRate ?? clmmInfo.feeRate ?? 0),
+        protocolFeePpm: normalizeFeePpm((apiPool as any).protocolFeeRate ?? clmmInfo.protocolFeeRate ?? 0),
+        liquidity: clmmInfo.liquidity ?? new BN(0),
+        sqrtPriceX64: clmmInfo.sqrtPriceX64 ?? new BN(0),
+        tickCurrent: Number(clmmInfo.tickCurrent ?? 0),
+        mintA, decA,
+        mintB, decB,
+        decimalsBy,
+      };
+      return info;
+    },
+
+    midPrice(): Decimal {
+      const { info } = loaded();
+      return pxBperA_fromSqrt(info.sqrtPriceX64, info.decA, info.decB);
+    },
+
+    async quoteExactIn(inputMint: string, amountIn: BN): Promise<SwapQuote> {
+      const { clmmInfo, info } = loaded();
+      const res: any = PoolUtils.getOutputAmountAndRemainAccounts(
+        clmmInfo,
+        tickArrayCache as any,
+        new PublicKey(inputMint),
+        amountIn
+      );
+      if (res.allTrade === false) throw new Error("Raydium quote filled partially (ran out of loaded tick arrays)");
+      const feeAmount: BN = res.feeAmount ?? amountIn.mul(new BN(info.feePpm)).div(new BN(1_000_000));
+      const tickArrays = extractTickArrayStartsUsed(res.remainingAccounts, tickArrayCache);
+      return { amountIn, amountOut: res.expectedAmountOut, feeAmount, tickArrays: tickArrays.length ? tickArrays : undefined };
+    },
+
+    async quoteExactOut(outputMint: string, amountOut: BN): Promise<SwapQuote> {
+      const { clmmInfo, info } = loaded();
+      const res: any = PoolUtils.getInputAmountAndRemainAccounts(
+        clmmInfo,
+        tickArrayCache as any,
+        new PublicKey(outputMint),
+        amountOut
+      );
+      if (res.allTrade === false) throw new Error("Raydium quote filled partially (ran out of loaded tick arrays)");
+      const amountIn: BN = res.expectedAmountIn;
+      const feeAmount: BN = res.feeAmount ?? amountIn.mul(new BN(info.feePpm)).div(new BN(1_000_000));
+      const tickArrays = extractTickArrayStartsUsed(res.remainingAccounts, tickArrayCache);
+      return { amountIn, amountOut, feeAmount, tickArrays: tickArrays.length ? tickArrays : undefined };
+    },
+
+    // Raw PoolState + AmmConfig + tick arrays for the native engine (no SDK decoding)
+    async clmmState(arraysEachSide: number): Promise<ClmmState> {
+      const { info } = loaded();
+      const poolPk = new PublicKey(poolAddress);
+      const programPk = new PublicKey(info.programId);
+      const acc = await conn.getAccountInfo(poolPk);
+      if (!acc) throw new Error(`Raydium pool ${poolAddress} not found`);
+      const p = decodeRaydiumPool(acc.data);
+      const cfgAcc = await conn.getAccountInfo(new PublicKey(p.ammConfig));
+      if (!cfgAcc) throw new Error(`Raydium AmmConfig ${p.ammConfig} not found`);
+      const cfg = decodeRaydiumAmmConfig(cfgAcc.data);
+      const ta = await fetchTickArrays(
+        conn, p.tickCurrent, p.tickSpacing, RAYDIUM_TICK_ARRAY_SIZE, arraysEachSide,
+        (start) => raydiumTickArrayPda(programPk, poolPk, start),
+        decodeRaydiumTickArray
+      );
+      return {
+        tickMath: "raydium",
+        sqrtPriceX64: p.sqrtPriceX64,
+        tickCurrent: p.tickCurrent,
+        liquidity: p.liquidity,
+        feePpm: cfg.tradeFeeRate,
+        tickSpacing: p.tickSpacing,
+        ticks: ta.ticks,
+        ...coverageFrom(ta.loadedStarts, ta.currentStart, ta.span),
+        arraySpan: ta.span,
+        missingArrays: ta.missingStarts,
+      };
+    },
+
+    watchAccounts(arraysEachSide: number): WatchedAccount[] {
+      const { info } = loaded();
+      const poolPk = new PublicKey(poolAddress);
+      const programPk = new PublicKey(info.programId);
+      return [
+        { pubkey: poolAddress, kind: "pool" as const },
+        ...tickArrayStarts(info.tickCurrent, info.tickSpacing, RAYDIUM_TICK_ARRAY_SIZE, arraysEachSide).map((start) => ({
+          pubkey: raydiumTickArrayPda(programPk, poolPk, start).toBase58(),
+          kind: "tick_array" as const,
+        })),
+      ];
+    },
+  };
+}
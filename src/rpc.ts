@@ -0,0 +1,329 @@
+/**
+ * Resilient RPC for every live command (`--rpc a,b,...`).
+ * - Transport (the Connection's `fetch`): a request-rate limit, a timeout per request and
+ *   retries with exponential backoff on 429 / 5xx / timeouts / network errors (Retry-After
+ *   honoured); each failed attempt fails over to the next endpoint, which then stays current
+ * - Batching (RpcConnection): getAccountInfo calls made in the same tick go out as one
+ *   getMultipleAccountsInfo; getMultipleAccountsInfo is split at the 100-key RPC limit
+ * - Stats: requests, calls per method, retries, failovers and latency, taken per run
+ * - Slots (readSlots): account reads of one step are pinned at or after the first one's
+ *   context slot (minContextSlot), and the slots they answered at are reported
+ */
+
+import {
+  Connection,
+  PublicKey,
+  type AccountInfo,
+  type Commitment,
+  type ConnectionConfig,
+  type GetAccountInfoConfig,
+  type GetMultipleAccountsConfig,
+  type RpcResponseAndContext,
+} from "@solana/web3.js";
+
+import { rpcMethods } from "./metrics.js";
+import { percentile, sleep } from "./utils.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type RpcOptions = {
+  endpoints: string[];        // first is primary; the rest are failovers, in order
+  retries: number;            // extra attempts per request
+  timeoutMs: number;          // per attempt
+  rps: number;                // requests per second across endpoints; 0 = unlimited
+};
+
+export type RpcStats = {
+  requests: number;           // HTTP requests answered (a JSON-RPC batch counts once)
+  calls: Record<string, number>; // JSON-RPC calls by method
+  retries: number;
+  failovers: number;
+  failures: number;           // requests given up after every attempt
+  coalesced: number;          // getAccountInfo calls folded into a getMultipleAccountsInfo
+  latenciesMs: number[];      // per answered request, retries included
+};
+
+/** Lowest and highest context slot of a set of account reads */
+export type SlotRange = { min: number; max: number };
+
+/** Connections that report the context slots of the reads made by `fn` (RpcConnection, ReplayConnection) */
+export interface SlotSource {
+  readSlots<T>(fn: () => Promise<T>, minSlot?: number): Promise<[T, SlotRange | undefined]>;
+}
+
+export const slotSourceOf = (conn: Connection): SlotSource | undefined =>
+  "readSlots" in conn ? (conn as unknown as SlotSource) : undefined;
+
+const MAX_KEYS_PER_CALL = 100;
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 8_000;
+
+const emptyStats = (): RpcStats => ({ requests: 0, calls: {}, retries: 0, failovers: 0, failures: 0, coalesced: 0, latenciesMs: [] });
+
+/** "https://a, https://b" -> endpoints; throws when none is given */
+export function parseEndpoints(list: string): string[] {
+  const out = list.split(",").map((s) => s.trim()).filter(Boolean);
+  if (!out.length) throw new Error(`No RPC endpoint in "${list}"`);
+  return out;
+}
+
+/* -------------------------------- Transport -------------------------------- */
+/** Reads of one readSlots call; `pin` is the minContextSlot of the reads after the first */
+type SlotWindow = { pin?: number; min: number; max: number };
+
+type Transport = {
+  fetch: typeof fetch;
+  take: () => RpcStats;
+  count: (n: number) => void;
+  open: (minSlot?: number) => SlotWindow;
+  close: (w: SlotWindow) => void;
+};
+
+type JsonRpcRequest = { method?: string; params?: unknown[] };
+type JsonRpcResponse = { error?: { code?: number }; result?: { context?: { slot?: number } } };
+
+const retryable = (status: number) => status === 429 || status >= 500;
+
+/** Methods taking `minContextSlot` in their config (the second param) */
+const PINNABLE = new Set(["getAccountInfo", "getMultipleAccounts", "getProgramAccounts"]);
+/** JSON-RPC error of a node behind the pinned slot: retried like a 429 */
+const MIN_CONTEXT_SLOT_NOT_REACHED = -32016;
+
+/** `body` with minContextSlot >= `slot` on every pinnable call */
+function pinBody(body: string, slot: number): string {
+  const parsed = JSON.parse(body) as JsonRpcRequest | JsonRpcRequest[];
+  const pin = (r: JsonRpcRequest): JsonRpcRequest => {
+    if (!r.method || !PINNABLE.has(r.method) || !Array.isArray(r.params)) return r;
+    const config = (r.params[1] ?? {}) as { minContextSlot?: number };
+    const params = [...r.params];
+    params[1] = { ...config, minContextSlot: Math.max(config.minContextSlot ?? 0, slot) };
+    return { ...r, params };
+  };
+  return JSON.stringify(Array.isArray(parsed) ? parsed.map(pin) : pin(parsed));
+}
+
+/** Retry-After in ms (seconds or an HTTP date), if the server sent one */
+function retryAfterMs(res: Response): number | undefined {
+  const h = res.headers.get("retry-after");
+  if (!h) return undefined;
+  const sec = Number(h);
+  const ms = Number.isFinite(sec) ? sec * 1000 : new Date(h).getTime() - Date.now();
+  return ms > 0 ? Math.min(ms, BACKOFF_MAX_MS * 4) : undefined;
+}
+
+function mkTransport(o: RpcOptions): Transport {
+  let stats = emptyStats();
+  let current = 0;
+  let nextSlot = 0;             // earliest start of the next request (rate limit)
+  const windows: SlotWindow[] = [];
+
+  /** Context slots of a response, into every open window; the first one pins its window */
+  const seen = (responses: JsonRpcResponse[]) => {
+    for (const slot of responses.map((r) => r.result?.context?.slot)) {
+      if (typeof slot !== "number") continue;
+      for (const w of windows) {
+        w.min = Math.min(w.min, slot);
+        w.max = Math.max(w.max, slot);
+        w.pin ??= slot;
+      }
+    }
+  };
+
+  const throttle = async () => {
+    if (!(o.rps > 0)) return;
+    const now = Date.now();
+    const start = Math.max(now, nextSlot);
+    nextSlot = start + 1000 / o.rps;
+    if (start > now) await sleep(start - now);
+  };
+
+  const failover = (why: string) => {
+    if (o.endpoints.length < 2) return;
+    const from = o.endpoints[current];
+    current = (current + 1) % o.endpoints.length;
+    stats.failovers++;
+    console.warn(`⚠️  [rpc] ${from}: ${why}; switching to ${o.endpoints[current]}`);
+  };
+
+  const rpcFetch = async (_input: Parameters<typeof fetch>[0], init?: Parameters<typeof fetch>[1]): Promise<Response> => {
+    for (const m of rpcMethods(init?.body)) stats.calls[m] = (stats.calls[m] ?? 0) + 1;
+    const started = Date.now();
+    let last: Response | Error = new Error("no attempt made");
+    const tracked = windows.length > 0;
+    const pin = windows[windows.length - 1]?.pin;
+    const body = pin !== undefined && typeof init?.body === "string" ? pinBody(init.body, pin) : init?.body;
+    for (let attempt = 0; attempt <= o.retries; attempt++) {
+      if (attempt > 0) {
+        stats.retries++;
+        const backoff = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+        const wait = (last instanceof Response && retryAfterMs(last)) || backoff * (0.5 + Math.random());
+        await sleep(wait);
+      }
+      await throttle();
+      const endpoint = o.endpoints[current];
+      try {
+        const res = await fetch(endpoint, { ...init, body, signal: AbortSignal.timeout(o.timeoutMs) });
+        if (retryable(res.status)) {
+          last = res;
+          failover(`HTTP ${res.status}`);
+          continue;
+        }
+        if (!tracked || !res.ok) {
+          stats.requests++;
+          stats.latenciesMs.push(Date.now() - started);
+          return res;
+        }
+        // Inside readSlots: look at the answer (context slots, a node behind the pin)
+        const text = await res.text();
+        const answered = (() => {
+          try {
+            const parsed = JSON.parse(text) as JsonRpcResponse | JsonRpcResponse[];
+            return Array.isArray(parsed) ? parsed : [parsed];
+          } catch {
+            return [];
+          }
+        })();
+        const copy = new Response(text, { status: res.status, statusText: res.statusText, headers: res.headers });
+        if (answered.some((r) => r.error?.code === MIN_CONTEXT_SLOT_NOT_REACHED)) {
+          last = copy;
+          failover(`behind slot ${pin}`);
+          continue;
+        }
+        seen(answered);
+        stats.requests++;
+        stats.latenciesMs.push(Date.now() - started);
+        return copy;
+      } catch (e: unknown) {
+        last = e instanceof Error ? e : new Error(String(e));
+        failover(last.name === "TimeoutError" ? `timed out after ${o.timeoutMs}ms` : last.message);
+      }
+    }
+    stats.failures++;
+    if (last instanceof Response) return last;   // web3.js turns it into an error with the body
+    throw last;
+  };
+
+  return {
+    fetch: rpcFetch as typeof fetch,
+    take: () => {
+      const s = stats;
+      stats = emptyStats();
+      return s;
+    },
+    count: (n) => { stats.coalesced += n; },
+    open: (minSlot) => {
+      const w: SlotWindow = { pin: minSlot, min: Number.POSITIVE_INFINITY, max: Number.NEGATIVE_INFINITY };
+      windows.push(w);
+      return w;
+    },
+    close: (w) => {
+      const i = windows.indexOf(w);
+      if (i >= 0) windows.splice(i, 1);
+    },
+  };
+}
+
+/* -------------------------------- Connection ------------------------------- */
+type Waiter = {
+  key: PublicKey;
+  resolve: (r: RpcResponseAndContext<AccountInfo<Buffer> | null>) => void;
+  reject: (e: unknown) => void;
+};
+
+/** A Connection over the resilient transport; RecordingConnection builds on it */
+export class RpcConnection extends Connection implements SlotSource {
+  readonly endpoints: string[];
+  private readonly transport: Transport;
+  private readonly queued = new Map<string, Waiter[]>();   // commitment -> getAccountInfo calls of this tick
+
+  constructor(o: RpcOptions, config: ConnectionConfig = {}) {
+    const transport = mkTransport(o);
+    super(o.endpoints[0], { ...config, fetch: transport.fetch, disableRetryOnRateLimit: true });
+    this.transport = transport;
+    this.endpoints = o.endpoints;
+  }
+
+  /**
+   * Run `fn` with its account reads pinned at or after the first one's context slot
+   * (or `minSlot`); returns the range of slots they answered at (undefined: no reads).
+   */
+  async readSlots<T>(fn: () => Promise<T>, minSlot?: number): Promise<[T, SlotRange | undefined]> {
+    const w = this.transport.open(minSlot);
+    try {
+      const value = await fn();
+      return [value, Number.isFinite(w.max) ? { min: w.min, max: w.max } : undefined];
+    } finally {
+      this.transport.close(w);
+    }
+  }
+
+  /** Stats since the last call (one run: a probe, a batch pass, a watch cycle) */
+  takeStats(): RpcStats {
+    return this.transport.take();
+  }
+
+  override async getAccountInfoAndContext(
+    publicKey: PublicKey,
+    commitmentOrConfig?: Commitment | GetAccountInfoConfig
+  ): Promise<RpcResponseAndContext<AccountInfo<Buffer> | null>> {
+    // Only plain reads can share a getMultipleAccountsInfo (no dataSlice, minContextSlot, ...)
+    const commitment = typeof commitmentOrConfig === "object" ? commitmentOrConfig.commitment : commitmentOrConfig;
+    if (typeof commitmentOrConfig === "object" && Object.keys(commitmentOrConfig).some((k) => k !== "commitment")) {
+      return super.getAccountInfoAndContext(publicKey, commitmentOrConfig);
+    }
+    const slot = commitment ?? "";
+    return new Promise((resolve, reject) => {
+      const waiters = this.queued.get(slot);
+      if (waiters) return void waiters.push({ key: publicKey, resolve, reject });
+      this.queued.set(slot, [{ key: publicKey, resolve, reject }]);
+      setImmediate(() => void this.flush(slot, commitment));
+    });
+  }
+
+  private async flush(slot: string, commitment?: Commitment) {
+    const waiters = this.queued.get(slot) ?? [];
+    this.queued.delete(slot);
+    try {
+      if (waiters.length === 1) {
+        waiters[0].resolve(await super.getAccountInfoAndContext(waiters[0].key, commitment));
+        return;
+      }
+      const keys = [...new Map(waiters.map((w) => [w.key.toBase58(), w.key])).values()];
+      const res = await this.getMultipleAccountsInfoAndContext(keys, commitment);
+      const byKey = new Map(keys.map((k, i) => [k.toBase58(), res.value[i]]));
+      this.transport.count(waiters.length);
+      for (const w of waiters) w.resolve({ context: res.context, value: byKey.get(w.key.toBase58()) ?? null });
+    } catch (e: unknown) {
+      for (const w of waiters) w.reject(e);
+    }
+  }
+
+  override async getMultipleAccountsInfoAndContext(
+    publicKeys: PublicKey[],
+    commitmentOrConfig?: Commitment | GetMultipleAccountsConfig
+  ): Promise<RpcResponseAndContext<(AccountInfo<Buffer> | null)[]>> {
+    if (publicKeys.length <= MAX_KEYS_PER_CALL) return super.getMultipleAccountsInfoAndContext(publicKeys, commitmentOrConfig);
+    const value: (AccountInfo<Buffer> | null)[] = [];
+    let context = { slot: 0 };
+    for (let i = 0; i < publicKeys.length; i += MAX_KEYS_PER_CALL) {
+      const res = await super.getMultipleAccountsInfoAndContext(publicKeys.slice(i, i + MAX_KEYS_PER_CALL), commitmentOrConfig);
+      value.push(...res.value);
+      if (res.context.slot > context.slot) context = res.context;
+    }
+    return { context, value };
+  }
+}
+
+/* --------------------------------- Report ---------------------------------- */
+/** One console line, e.g. `RPC: 9 requests, 14 calls (getMultipleAccounts 6, ...), latency p50 85ms ...` */
+export function formatRpcStats(s: RpcStats): string {
+  const calls = Object.entries(s.calls).sort((a, b) => b[1] - a[1]);
+  const total = calls.reduce((n, [, c]) => n + c, 0);
+  const lat = [...s.latenciesMs].sort((a, b) => a - b);
+  const parts = [
+    `${s.requests} requests, ${total} calls (${calls.map(([m, c]) => `${m} ${c}`).join(", ") || "none"})`,
+    lat.length ? `latency p50 ${Math.round(percentile(lat, 0.5))}ms p95 ${Math.round(percentile(lat, 0.95))}ms max ${lat[lat.length - 1]}ms` : "",
+    s.coalesced ? `${s.coalesced} account reads batched` : "",
+    s.retries || s.failovers || s.failures ? `${s.retries} retries, ${s.failovers} failovers, ${s.failures} failed` : "",
+  ];
+  return `RPC: ${parts.filter(Boolean).join("; ")}`;
+}
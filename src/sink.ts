@@ -0,0 +1,112 @@
+/**
+ * Output sinks: every command emits flat records (a header + rows), written to the
+ * format picked by the `--out` file extension:
+ * - .csv                   RFC 4180 CSV; header on a fresh file, checked on an existing one (csv.ts)
+ * - .jsonl / .ndjson       one JSON object per row, keyed by the header (NaN -> null)
+ * - .db / .sqlite / .sqlite3  one table per record type, indexed on pool, ts_utc and size_value
+ */
+
+import fs from "fs";
+import path from "path";
+
+import { mkCsvAppender } from "./csv.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type Cell = string | number;
+
+export type OutputSink = {
+  write: (row: Cell[]) => void;
+  close: () => void;
+};
+
+export type SinkKind = "csv" | "jsonl" | "sqlite";
+
+/** Record types; also the SQLite table names */
+export type RecordKind =
+  | "roundtrip" | "target" | "compare" | "split" | "depth_band" | "depth_profile" | "discover" | "merged" | "rollup";
+
+const EXTENSIONS: Record<string, SinkKind> = {
+  ".csv": "csv",
+  ".jsonl": "jsonl",
+  ".ndjson": "jsonl",
+  ".db": "sqlite",
+  ".sqlite": "sqlite",
+  ".sqlite3": "sqlite",
+};
+
+/** Columns indexed in SQLite when a record type has them */
+const INDEXED_COLUMNS = ["pool", "ts_utc", "size_value"];
+
+export function sinkKind(target: string): SinkKind {
+  const kind = EXTENSIONS[path.extname(target).toLowerCase()];
+  if (!kind) {
+    throw new Error(`Cannot tell the output format of "${target}". Use one of ${Object.keys(EXTENSIONS).join(" ")}`);
+  }
+  return kind;
+}
+
+/* --------------------------------- Sinks ---------------------------------- */
+function mkJsonlSink(target: string, columns: string[]): OutputSink {
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  const fd = fs.openSync(target, "a");
+  return {
+    write: (row: Cell[]) => {
+      const obj = Object.fromEntries(columns.map((c, i) => [c, row[i]]));
+      fs.writeSync(fd, JSON.stringify(obj) + "\n");
+    },
+    close: () => {
+      try {
+        fs.closeSync(fd);
+      } catch {
+        /* ignore */
+      }
+    },
+  };
+}
+
+/**
+ * SQLite table named after the record type. An existing table must have the same
+ * columns; a new one is created on the first row, typed from it (numbers NUMERIC, else TEXT).
+ */
+async function mkSqliteSink(target: string, record: RecordKind, columns: string[]): Promise<OutputSink> {
+  const { default: Database } = await import("better-sqlite3");
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  const db = new Database(target);
+  db.pragma("journal_mode = WAL");
+
+  const q = (name: string) => `"${name}"`;
+  const have = (db.prepare(`PRAGMA table_info(${q(record)})`).all() as Array<{ name: string }>).map((c) => c.name);
+  if (have.length && have.join(",") !== columns.join(",")) {
+    db.close();
+    throw new Error(`${target}: table ${record} has different columns; write to a new database (or drop the table).`);
+  }
+
+  const insertSql = `INSERT INTO ${q(record)} (${columns.map(q).join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`;
+  let insert = have.length ? db.prepare(insertSql) : undefined;
+
+  const create = (row: Cell[]) => {
+    const cols = columns.map((c, i) => `${q(c)} ${typeof row[i] === "number" ? "NUMERIC" : "TEXT"}`);
+    db.exec(`CREATE TABLE IF NOT EXISTS ${q(record)} (${cols.join(", ")})`);
+    for (const c of INDEXED_COLUMNS.filter((c) => columns.includes(c))) {
+      db.exec(`CREATE INDEX IF NOT EXISTS ${q(`${record}_${c}`)} ON ${q(record)} (${q(c)})`);
+    }
+    return db.prepare(insertSql);
+  };
+
+  return {
+    write: (row: Cell[]) => {
+      insert ??= create(row);
+      insert.run(row.map((v) => (typeof v === "number" && Number.isNaN(v) ? null : v)));
+    },
+    close: () => db.close(),
+  };
+}
+
+/** Open `target` for one record type; the format follows the file extension. */
+export async function openSink(target: string, record: RecordKind, columns: string[]): Promise<OutputSink> {
+  switch (sinkKind(target)) {
+    case "csv": return mkCsvAppender(target, columns);
+    case "jsonl": return mkJsonlSink(target, columns);
+    case "sqlite": return mkSqliteSink(target, record, columns);
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Offline pool snapshots.
+ * - RecordingConnection: a live RpcConnection that keeps every account it returns
+ *   (pool, tick arrays, AmmConfig, mints, oracle pool) plus the context slot.
+ * - ReplayConnection: serves the same reads from a snapshot file, no RPC at all.
+ * Adapters stay unaware of either; they just get a Connection.
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  Connection,
+  PublicKey,
+  type AccountInfo,
+  type Commitment,
+  type EpochInfo,
+  type GetAccountInfoConfig,
+  type GetEpochInfoConfig,
+  type ParsedAccountData,
+  type RpcResponseAndContext,
+} from "@solana/web3.js";
+
+import type { Dex } from "./adapter.js";
+import { RpcConnection, type SlotRange, type SlotSource } from "./rpc.js";
+import { MINT_SIZE, TOKEN_2022_PROGRAM, TOKEN_PROGRAM } from "./tokens.js";
+
+/** Bump when the file layout changes; readSnapshot refuses other versions. */
+export const SNAPSHOT_VERSION = 1;
+
+/* -------------------------------- Types ---------------------------------- */
+export type SnapshotAccount = {
+  owner: string;
+  lamports: number;
+  executable: boolean;
+  rentEpoch: number;
+  data: string; // base64
+};
+
+export type Snapshot = {
+  version: number;
+  dex: Dex;
+  pool: string;
+  slot: number;               // highest context slot seen while capturing
+  minSlot: number;            // lowest context slot seen while capturing
+  capturedAt: string;         // ISO UTC
+  rpc: string;
+  epochInfo?: EpochInfo;
+  /** pubkey -> account; null = fetched but did not exist */
+  accounts: Record<string, SnapshotAccount | null>;
+  /** Off-chain inputs an adapter needed (e.g. Raydium API pool metadata) */
+  extras: Record<string, unknown>;
+};
+
+type CommitmentArg = Commitment | GetAccountInfoConfig | undefined;
+
+/* ------------------------------ Encoding ---------------------------------- */
+export function encodeAccount(a: AccountInfo<Buffer> | null): SnapshotAccount | null {
+  if (!a) return null;
+  return {
+    owner: a.owner.toBase58(),
+    lamports: a.lamports,
+    executable: a.executable,
+    rentEpoch: a.rentEpoch ?? 0,
+    data: Buffer.from(a.data).toString("base64"),
+  };
+}
+
+export function decodeAccount(a: SnapshotAccount | null | undefined): AccountInfo<Buffer> | null {
+  if (!a) return null;
+  return {
+    owner: new PublicKey(a.owner),
+    lamports: a.lamports,
+    executable: a.executable,
+    rentEpoch: a.rentEpoch,
+    data: Buffer.from(a.data, "base64"),
+  };
+}
+
+/**
+ * jsonParsed view of an SPL / Token-2022 mint built from raw bytes, so recorded
+ * and replayed runs answer getParsedAccountInfo identically (decimals at offset 44).
+ */
+function parsedMintView(a: AccountInfo<Buffer> | null): AccountInfo<Buffer | ParsedAccountData> | null {
+  if (!a) return null;
+  const owner = a.owner.toBase58();
+  if ((owner !== TOKEN_PROGRAM && owner !== TOKEN_2022_PROGRAM) || a.data.length < MINT_SIZE) return a;
+  const parsed: ParsedAccountData = {
+    program: owner === TOKEN_PROGRAM ? "spl-token" : "spl-token-2022",
+    space: a.data.length,
+    parsed: {
+      type: "mint",
+      info: {
+        decimals: a.data.readUInt8(44),
+        supply: a.data.readBigUInt64LE(36).toString(),
+        isInitialized: a.data.readUInt8(45) === 1,
+      },
+    },
+  };
+  return { ...a, data: parsed };
+}
+
+/* ------------------------------ Recording --------------------------------- */
+export class RecordingConnection extends RpcConnection {
+  private readonly accounts: Record<string, SnapshotAccount | null> = {};
+  private readonly extras: Record<string, unknown> = {};
+  private epochInfo?: EpochInfo;
+  private maxSlot = 0;
+  private minSlot = Number.MAX_SAFE_INTEGER;
+
+  private seen(slot: number) {
+    this.maxSlot = Math.max(this.maxSlot, slot);
+    this.minSlot = Math.min(this.minSlot, slot);
+  }
+
+  override async getAccountInfoAndContext(
+    publicKey: PublicKey,
+    commitmentOrConfig?: CommitmentArg
+  ): Promise<RpcResponseAndContext<AccountInfo<Buffer> | null>> {
+    const res = await super.getAccountInfoAndContext(publicKey, commitmentOrConfig);
+    this.seen(res.context.slot);
+    this.accounts[publicKey.toBase58()] = encodeAccount(res.value);
+    return res;
+  }
+
+  override async getMultipleAccountsInfoAndContext(
+    publicKeys: PublicKey[],
+    commitmentOrConfig?: CommitmentArg
+  ): Promise<RpcResponseAndContext<(AccountInfo<Buffer> | null)[]>> {
+    const res = await super.getMultipleAccountsInfoAndContext(publicKeys, commitmentOrConfig);
+    this.seen(res.context.slot);
+    publicKeys.forEach((pk, i) => { this.accounts[pk.toBase58()] = encodeAccount(res.value[i]); });
+    return res;
+  }
+
+  override async getParsedAccountInfo(
+    publicKey: PublicKey,
+    commitmentOrConfig?: CommitmentArg
+  ): Promise<RpcResponseAndContext<AccountInfo<Buffer | ParsedAccountData> | null>> {
+    const res = await this.getAccountInfoAndContext(publicKey, commitmentOrConfig);
+    return { context: res.context, value: parsedMintView(res.value) };
+  }
+
+  override async getEpochInfo(commitmentOrConfig?: Commitment | GetEpochInfoConfig): Promise<EpochInfo> {
+    this.epochInfo = await super.getEpochInfo(commitmentOrConfig);
+    return this.epochInfo;
+  }
+
+  setExtra(key: string, value: unknown) {
+    this.extras[key] = value;
+  }
+
+  toSnapshot(dex: Dex, pool: string): Snapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      dex,
+      pool,
+      slot: this.maxSlot,
+      minSlot: this.minSlot === Number.MAX_SAFE_INTEGER ? this.maxSlot : this.minSlot,
+      capturedAt: new Date().toISOString(),
+      rpc: this.rpcEndpoint,
+      epochInfo: this.epochInfo,
+      accounts: this.accounts,
+      extras: this.extras,
+    };
+  }
+}
+
+/* ------------------------------- Replay ----------------------------------- */
+/**
+ * Serves account reads from a snapshot. Accounts that were never fetched during
+ * capture come back as missing (null), same as an uninitialized tick array.
+ * Any other RPC method goes to an unroutable endpoint and fails fast.
+ * Subscriptions go to `wsEndpoint` (e.g. `clamm replay-ws`, see mock_ws.ts).
+ */
+export class ReplayConnection extends Connection implements SlotSource {
+  private reads = 0;
+
+  constructor(readonly snapshot: Snapshot, wsEndpoint?: string) {
+    super("http://snapshot.invalid", { commitment: "confirmed", wsEndpoint });
+  }
+
+  /** Every read answers at the snapshot slot (the latest replayed update's, with --subscribe) */
+  async readSlots<T>(fn: () => Promise<T>): Promise<[T, SlotRange | undefined]> {
+    const before = this.reads;
+    const value = await fn();
+    return [value, this.reads > before ? { min: this.snapshot.slot, max: this.snapshot.slot } : undefined];
+  }
+
+  /** Account update pushed over the websocket (--subscribe replays): later reads see it */
+  applyUpdate(pubkey: string, account: AccountInfo<Buffer>, slot: number): void {
+    this.snapshot.accounts[pubkey] = encodeAccount(account);
+    this.snapshot.slot = Math.max(this.snapshot.slot, slot);
+  }
+
+  private context() {
+    this.reads++;
+    return { slot: this.snapshot.slot };
+  }
+
+  override async getAccountInfoAndContext(
+    publicKey: PublicKey
+  ): Promise<RpcResponseAndContext<AccountInfo<Buffer> | null>> {
+    return { context: this.context(), value: decodeAccount(this.snapshot.accounts[publicKey.toBase58()]) };
+  }
+
+  override async getMultipleAccountsInfoAndContext(
+    publicKeys: PublicKey[]
+  ): Promise<RpcResponseAndContext<(AccountInfo<Buffer> | null)[]>> {
+    return {
+      context: this.context(),
+      value: publicKeys.map((pk) => decodeAccount(this.snapshot.accounts[pk.toBase58()])),
+    };
+  }
+
+  override async getParsedAccountInfo(
+    publicKey: PublicKey
+  ): Promise<RpcResponseAndContext<AccountInfo<Buffer | ParsedAccountData> | null>> {
+    const res = await this.getAccountInfoAndContext(publicKey);
+    return { context: res.context, value: parsedMintView(res.value) };
+  }
+
+  override async getSlot(): Promise<number> {
+    return this.snapshot.slot;
+  }
+
+  override async getEpochInfo(): Promise<EpochInfo> {
+    if (!this.snapshot.epochInfo) throw new Error("Snapshot has no epoch info (not read at capture time)");
+    return this.snapshot.epochInfo;
+  }
+}
+
+/* ------------------------------- Helpers ---------------------------------- */
+/**
+ * Off-chain input that must travel with the snapshot: fetched and stored while
+ * recording, read back when replaying, fetched as usual otherwise.
+ */
+export async function snapshotExtra<T>(conn: Connection, key: string, fetch: () => Promise<T>): Promise<T> {
+  if (conn instanceof ReplayConnection) {
+    if (!(key in conn.snapshot.extras)) throw new Error(`Snapshot is missing "${key}"`);
+    return conn.snapshot.extras[key] as T;
+  }
+  const value = await fetch();
+  if (conn instanceof RecordingConnection) conn.setExtra(key, value);
+  return value;
+}
+
+export function writeSnapshot(outPath: string, snap: Snapshot): void {
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify(snap, null, 2) + "\n");
+}
+
+export function readSnapshot(inPath: string): Snapshot {
+  const snap = JSON.parse(fs.readFileSync(inPath, "utf8")) as Snapshot;
+  if (snap.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${snap.version} in ${inPath} (expected ${SNAPSHOT_VERSION})`);
+  }
+  return snap;
+}
@@ -0,0 +1,139 @@
+/**
+ * Inverse probe: the largest notional whose cost stays under a bps target.
+ * Cost grows with size, so each (target, side) is a 1-D root search:
+ * bracket by doubling from a small start, then bisect in log space.
+ * A notional the pool cannot quote (out of liquidity) counts as over the target;
+ * any other failure ends that target with status error and the reason.
+ */
+
+/* -------------------------------- Types ---------------------------------- */
+export type TargetSide = "buy" | "sell" | "roundtrip";
+/** impact: excluding fees (like impact_bps_total); total: including fees (like roundtrip_bps) */
+export type TargetBasis = "impact" | "total";
+export const TARGET_BASES: readonly TargetBasis[] = ["impact", "total"];
+
+/** Costs at one notional, bps of mid. Leg costs: BUY above mid, SELL below mid. */
+export type Measurement = {
+  buyBps: number;
+  sellBps: number;
+  rtBps: number;
+  buyFeeBps: number;
+  sellFeeBps: number;
+};
+
+/** Quote both legs for a QUOTE notional; null when the pool cannot fill it, throws on anything else */
+export type Measure = (quoteNotional: number) => Promise<Measurement | null>;
+
+/**
+ * solved: bracketed and bisected; liquidity: capped by what the pool can quote;
+ * below_min: even the start is over; unbounded: still under after every doubling;
+ * error: a measurement threw (see reason)
+ */
+export type TargetStatus = "solved" | "liquidity" | "below_min" | "unbounded" | "error";
+
+export type TargetResult = {
+  targetBps: number;
+  basis: TargetBasis;
+  side: TargetSide;
+  maxQuote: number;           // largest QUOTE notional found under the target (0 if none)
+  achievedBps: number;        // metric at maxQuote
+  iterations: number;         // notionals evaluated for this target
+  status: TargetStatus;
+  reason: string;             // why status is error, else ""
+};
+
+/** Stop when hi/lo is within this ratio */
+export const TARGET_REL_TOL = 0.002;
+const MAX_ITERATIONS = 60;
+const MAX_DOUBLINGS = 40;
+
+/* -------------------------------- Solver ---------------------------------- */
+function metric(m: Measurement, side: TargetSide, basis: TargetBasis): number {
+  const fees = side === "buy" ? m.buyFeeBps : side === "sell" ? m.sellFeeBps : m.buyFeeBps + m.sellFeeBps;
+  const cost = side === "buy" ? m.buyBps : side === "sell" ? m.sellBps : m.rtBps;
+  return basis === "impact" ? Math.max(cost - fees, 0) : cost;
+}
+
+/**
+ * Solve every target for every side. Measurements are memoized by notional, so
+ * the three sides share quotes wherever their searches visit the same points.
+ */
+export async function solveTargets(
+  measure: Measure,
+  targets: number[],
+  basis: TargetBasis,
+  startQuote: number,
+  relTol: number = TARGET_REL_TOL
+): Promise<TargetResult[]> {
+  // Promises, so a notional that threw is not quoted again
+  const memo = new Map<number, Promise<Measurement | null>>();
+  const at = (q: number) => {
+    if (!memo.has(q)) memo.set(q, measure(q));
+    return memo.get(q)!;
+  };
+
+  const solve = async (side: TargetSide, target: number): Promise<TargetResult> => {
+    let iterations = 0;
+    const row = (maxQuote: number, achievedBps: number, status: TargetStatus, reason = ""): TargetResult =>
+      ({ targetBps: target, basis, side, maxQuote, achievedBps, iterations, status, reason });
+    const under = async (q: number): Promise<number | null> => {
+      iterations++;
+      const m = await at(q);
+      if (!m) return null;
+      const v = metric(m, side, basis);
+      return v <= target ? v : null;
+    };
+
+    try {
+      let loVal = await under(startQuote);
+      if (loVal === null) return row(0, Number.NaN, "below_min");
+
+      // Bracket: double until over the target (or unquotable)
+      let lo = startQuote;
+      let hi = lo * 2;
+      let doublings = 0;
+      for (let v = await under(hi); v !== null; v = await under(hi)) {
+        lo = hi;
+        loVal = v;
+        hi *= 2;
+        if (++doublings >= MAX_DOUBLINGS) return row(lo, loVal, "unbounded");
+      }
+
+      // Bisect in log space
+      while (hi / lo > 1 + relTol && iterations < MAX_ITERATIONS) {
+        const mid = Math.sqrt(lo * hi);
+        const v = await under(mid);
+        if (v !== null) {
+          lo = mid;
+          loVal = v;
+        } else {
+          hi = mid;
+        }
+      }
+
+      const hiQuoted = (await at(hi)) !== null;
+      return row(lo, loVal, hiQuoted ? "solved" : "liquidity");
+    } catch (e: unknown) {
+      return row(Number.NaN, Number.NaN, "error", e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const out: TargetResult[] = [];
+  for (const side of ["buy", "sell", "roundtrip"] as TargetSide[]) {
+    for (const target of targets) out.push(await solve(side, target));
+  }
+  return out;
+}
+
+/* --------------------------------- Output --------------------------------- */
+export function targetCsvHeader(): string[] {
+  return [
+    "ts_utc", "run_id", "dex", "pool",
+    "base_mint", "quote_mint", "size_unit",
+    "target_bps", "basis", "side",
+    "max_notional_quote", "max_notional_usd", "max_size_value",
+    "achieved_bps", "iterations", "status", "reason",
+    "slot", "oracle_slot", "slot_check",
+    "usd_source", "usd_source_mint", "usd_source_price", "usd_source_conf_bps", "usd_deviation_bps",
+  ];
+}
@@ -0,0 +1,184 @@
+/**
+ * Split one order across pools of the same pair, using each pool's quote curve.
+ * The notional is cut into `steps` equal chunks and each chunk goes to the pool
+ * with the best marginal price for it:
+ * - BUY  (QUOTE -> BASE exact-in):  most extra BASE out for the next chunk of QUOTE in
+ * - SELL (BASE -> QUOTE exact-out): least extra BASE in for the next chunk of QUOTE out
+ * Output is concave (input convex) in size on a CLMM/DLMM, so the greedy fill is
+ * optimal up to the chunk size.
+ */
+
+import BN from "bn.js";
+import Decimal from "decimal.js";
+
+import type { PoolInfo, ProbeAdapter } from "./adapter.js";
+
+/* -------------------------------- Types ---------------------------------- */
+export type SplitSide = "buy" | "sell";
+
+/** A loaded pool taking part in the split */
+export type SplitVenue = {
+  label: string;              // dex:pubkey
+  adapter: ProbeAdapter;
+  info: PoolInfo;
+};
+
+export type SplitLeg = {
+  label: string;
+  quoteRaw: bigint;           // QUOTE routed to this pool (in for BUY, out for SELL)
+  baseRaw: bigint;            // BASE out (BUY) or in (SELL)
+  share: number;              // of the notional
+  px: number;                 // QUOTE per BASE on this leg
+};
+
+export type SplitResult = {
+  side: SplitSide;
+  notionalRaw: bigint;
+  legs: SplitLeg[];           // pools with a non-zero allocation
+  blendedPx: number;          // QUOTE per BASE over all legs
+  bestSingle: { label: string; px: number } | null;   // whole notional in one pool
+  savingBps: number;          // vs bestSingle, positive = split is better
+};
+
+/** Default chunks per notional: 2% granularity */
+export const SPLIT_STEPS = 50;
+
+/* ------------------------------- Helpers ---------------------------------- */
+const big = (x: BN): bigint => BigInt(x.toString());
+const bn = (x: bigint): BN => new BN(x.toString());
+
+/** QUOTE per BASE from raw amounts */
+function pxOf(quoteRaw: bigint, baseRaw: bigint, quoteDec: number, baseDec: number): number {
+  if (baseRaw === 0n) return Number.NaN;
+  return new Decimal(quoteRaw.toString()).div(Decimal.pow(10, quoteDec))
+    .div(new Decimal(baseRaw.toString()).div(Decimal.pow(10, baseDec)))
+    .toNumber();
+}
+
+/**
+ * BASE moved by routing `quoteRaw` through one pool (out for BUY, in for SELL),
+ * or null when the pool cannot fill it (e.g. runs out of loaded liquidity).
+ */
+async function baseFor(v: SplitVenue, side: SplitSide, quoteMint: string, quoteRaw: bigint): Promise<bigint | null> {
+  if (quoteRaw === 0n) return 0n;
+  try {
+    const q = side === "buy"
+      ? await v.adapter.quoteExactIn(quoteMint, bn(quoteRaw))
+      : await v.adapter.quoteExactOut(quoteMint, bn(quoteRaw));
+    const base = big(side === "buy" ? q.amountOut : q.amountIn);
+    return base > 0n ? base : null;
+  } catch {
+    return null;
+  }
+}
+
+/* --------------------------------- Solver --------------------------------- */
+export async function optimizeSplit(
+  venues: SplitVenue[],
+  side: SplitSide,
+  quoteMint: string,
+  notionalRaw: bigint,
+  steps: number
+): Promise<SplitResult> {
+  if (venues.length === 0) throw new Error("split needs at least one pool");
+  if (notionalRaw <= 0n) throw new Error("split notional must be positive");
+  const first = venues[0].info;
+  const quoteDec = first.mintA === quoteMint ? first.decA : first.decB;
+  const baseDec = first.mintA === quoteMint ? first.decB : first.decA;
+
+  const n = BigInt(Math.max(1, Math.floor(steps)));
+  const chunk = notionalRaw / n > 0n ? notionalRaw / n : notionalRaw;
+
+  const alloc = venues.map(() => 0n);   // QUOTE per pool
+  const base = venues.map(() => 0n);    // BASE at that allocation
+  // BASE at alloc + next chunk, per pool (null = cannot take it)
+  const next = await Promise.all(venues.map((v) => baseFor(v, side, quoteMint, chunk)));
+
+  let remaining = notionalRaw;
+  while (remaining > 0n) {
+    const step = remaining < chunk * 2n ? remaining : chunk; // last chunk takes the remainder
+    let best = -1;
+    let bestDelta = 0n;
+    for (let i = 0; i < venues.length; i++) {
+      let after = next[i];
+      if (step !== chunk) after = await baseFor(venues[i], side, quoteMint, alloc[i] + step);
+      if (after === null) continue;
+      const delta = after - base[i]; // BUY: BASE gained (maximize); SELL: BASE paid (minimize)
+      if (best < 0 || (side === "buy" ? delta > bestDelta : delta < bestDelta)) {
+        best = i;
+        bestDelta = delta;
+      }
+    }
+    if (best < 0) throw new Error(`No pool can fill the next ${step} raw QUOTE (${remaining} left of ${notionalRaw})`);
+
+    alloc[best] += step;
+    base[best] += bestDelta;
+    remaining -= step;
+    if (remaining > 0n) next[best] = await baseFor(venues[best], side, quoteMint, alloc[best] + chunk);
+  }
+
+  const totalBase = base.reduce((a, b) => a + b, 0n);
+  const legs: SplitLeg[] = venues
+    .map((v, i) => ({
+      label: v.label,
+      quoteRaw: alloc[i],
+      baseRaw: base[i],
+      share: new Decimal(alloc[i].toString()).div(notionalRaw.toString()).toNumber(),
+      px: pxOf(alloc[i], base[i], quoteDec, baseDec),
+    }))
+    .filter((l) => l.quoteRaw > 0n);
+  const blendedPx = pxOf(notionalRaw, totalBase, quoteDec, baseDec);
+
+  // Whole notional through each pool alone
+  let bestSingle: { label: string; px: number } | null = null;
+  for (const v of venues) {
+    const b = await baseFor(v, side, quoteMint, notionalRaw);
+    if (b === null) continue;
+    const px = pxOf(notionalRaw, b, quoteDec, baseDec);
+    if (!bestSingle || (side === "buy" ? px < bestSingle.px : px > bestSingle.px)) bestSingle = { label: v.label, px };
+  }
+  const savingBps = !bestSingle
+    ? Number.NaN
+    : side === "buy"
+      ? (bestSingle.px - blendedPx) / bestSingle.px * 1e4
+      : (blendedPx - bestSingle.px) / bestSingle.px * 1e4;
+
+  return { side, notionalRaw, legs, blendedPx, bestSingle, savingBps };
+}
+
+/* --------------------------------- Output --------------------------------- */
+export function splitCsvHeader(): string[] {
+  return [
+    "ts_utc", "run_id", "side",
+    "base_mint", "quote_mint", "notional_quote",
+    "pool", "alloc_quote", "alloc_share", "leg_base", "leg_px_quote_per_base",
+    "blended_px_quote_per_base", "best_single_pool", "best_single_px_quote_per_base", "saving_bps",
+  ];
+}
+
+/** One CSV row per leg, with the split summary repeated on each */
+export function splitCsvRows(
+  r: SplitResult,
+  ctx: { runId: string; baseMint: string; quoteMint: string; quoteDec: number; baseDec: number }
+): Array<Array<string | number>> {
+  const ui = (raw: bigint, dec: number) => new Decimal(raw.toString()).div(Decimal.pow(10, dec)).toNumber();
+  const ts = new Date().toISOString();
+  return r.legs.map((l) => [
+    ts, ctx.runId, r.side,
+    ctx.baseMint, ctx.quoteMint, ui(r.notionalRaw, ctx.quoteDec),
+    l.label, ui(l.quoteRaw, ctx.quoteDec), l.share, ui(l.baseRaw, ctx.baseDec), l.px,
+    r.blendedPx, r.bestSingle?.label ?? "", r.bestSingle?.px ?? Number.NaN, r.savingBps,
+  ]);
+}
+
+export function printSplit(r: SplitResult, notional: number, quoteSymbol: string): void {
+  console.log(`\n${r.side.toUpperCase()} ${notional.toLocaleString()} ${quoteSymbol}: blended px=${r.blendedPx.toPrecision(10)}`);
+  for (const l of r.legs) {
+    console.log(`  ${l.label.padEnd(58)} ${(l.share * 100).toFixed(1).padStart(5)}%  px=${l.px.toPrecision(10)}`);
+  }
+  if (r.bestSingle) {
+    console.log(`  best single pool: ${r.bestSingle.label} px=${r.bestSingle.px.toPrecision(10)}  saving=${r.savingBps.toFixed(2)}bps`);
+  } else {
+    console.log("  no single pool can fill the whole notional");
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Account-subscription probing (`--subscribe`): instead of polling, listen to the pool
+ * account and the tick (bin) arrays around the price via Connection.onAccountChange,
+ * and re-run the roundtrip quotes whenever one of them changes.
+ * - Changes within `debounceMs` of each other (one swap touches the pool and its arrays)
+ *   make one re-quote; changes during a re-quote queue up for the next one
+ * - Every re-quote records the highest notification slot and the accounts that changed
+ * - After each re-quote the subscriptions follow the price (new arrays in, stale ones out)
+ * - Updates can be appended to a JSONL file and served back by `clamm replay-ws` (mock_ws.ts)
+ */
+
+import fs from "fs";
+import path from "path";
+import { PublicKey, type AccountInfo, type Connection } from "@solana/web3.js";
+
+import type { ProbeAdapter, WatchedAccount } from "./adapter.js";
+import { ReplayConnection, encodeAccount, type SnapshotAccount } from "./snapshot.js";
+import { onShutdown } from "./watch.js";
+
+/* -------------------------------- Types ---------------------------------- */
+/** What made a re-quote: `initial`, or the changed accounts (`pool;tick_array:<pubkey>`) */
+export type Trigger = { slot: number; accounts: string };
+
+/** One recorded notification (a JSONL line of --recordUpdates) */
+export type AccountUpdate = { pubkey: string; slot: number; account: SnapshotAccount };
+
+export type SubscribeOptions = {
+  arraysEachSide: number;
+  debounceMs: number;
+  maxEvents?: number;         // stop after this many re-quotes (tests, bounded captures)
+  recordUpdates?: string;     // append every notification here
+  quiet: boolean;
+};
+
+/** Default tick arrays watched each side of the current one */
+export const SUBSCRIBE_ARRAYS_EACH_SIDE = 1;
+
+/* ---------------------------------- Loop ---------------------------------- */
+const describe = (changed: Map<string, WatchedAccount["kind"]>): string =>
+  [...changed].map(([pubkey, kind]) => (kind === "pool" ? "pool" : `${kind}:${pubkey}`)).join(";");
+
+/**
+ * Quote once (`initial`), then re-quote on every account change until SIGINT/SIGTERM
+ * or `maxEvents`. Resolves after the last re-quote finished and every listener is removed.
+ */
+export async function runSubscription(
+  conn: Connection,
+  adapter: ProbeAdapter,
+  requote: (trigger: Trigger) => Promise<void>,
+  o: SubscribeOptions
+): Promise<void> {
+  if (!adapter.watchAccounts) throw new Error(`--subscribe is not supported for dex=${adapter.dex}`);
+  const watchAccounts = adapter.watchAccounts.bind(adapter);
+
+  await requote({ slot: await conn.getSlot(), accounts: "initial" });
+
+  if (o.recordUpdates) fs.mkdirSync(path.dirname(o.recordUpdates), { recursive: true });
+  const record = o.recordUpdates ? fs.openSync(o.recordUpdates, "a") : undefined;
+
+  const subs = new Map<string, number>();   // pubkey -> listener id
+  const pending = new Map<string, WatchedAccount["kind"]>();
+  let pendingSlot = 0;
+  let events = 0;
+  let stopping = false;
+  let timer: NodeJS.Timeout | undefined;
+  let inflight: Promise<void> | null = null;
+  let finish!: () => void;
+  const finished = new Promise<void>((resolve) => { finish = resolve; });
+
+  const stop = () => {
+    stopping = true;
+    clearTimeout(timer);
+    finish();
+  };
+
+  const onChange = (pubkey: string, kind: WatchedAccount["kind"], account: AccountInfo<Buffer>, slot: number) => {
+    if (stopping) return;
+    if (record !== undefined) {
+      const line: AccountUpdate = { pubkey, slot, account: encodeAccount(account)! };
+      fs.writeSync(record, JSON.stringify(line) + "\n");
+    }
+    if (conn instanceof ReplayConnection) conn.applyUpdate(pubkey, account, slot);
+    pending.set(pubkey, kind);
+    pendingSlot = Math.max(pendingSlot, slot);
+    if (!inflight) {
+      clearTimeout(timer);
+      timer = setTimeout(drain, o.debounceMs);
+    }
+  };
+
+  const resubscribe = () => {
+    const want = new Map(watchAccounts(o.arraysEachSide).map((a) => [a.pubkey, a.kind]));
+    for (const [pubkey, id] of subs) {
+      if (want.has(pubkey)) continue;
+      void conn.removeAccountChangeListener(id);
+      subs.delete(pubkey);
+    }
+    for (const [pubkey, kind] of want) {
+      if (subs.has(pubkey)) continue;
+      subs.set(pubkey, conn.onAccountChange(new PublicKey(pubkey), (acc, ctx) => onChange(pubkey, kind, acc, ctx.slot), "confirmed"));
+    }
+  };
+
+  const drain = () => {
+    if (stopping || inflight || pending.size === 0) return;
+    const trigger = { slot: pendingSlot, accounts: describe(pending) };
+    pending.clear();
+    pendingSlot = 0;
+    inflight = (async () => {
+      try {
+        await requote(trigger);
+        resubscribe();
+      } catch (e: unknown) {
+        console.error(`[subscribe] re-quote at slot ${trigger.slot} failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      inflight = null;
+      events++;
+      if (o.maxEvents && events >= o.maxEvents) stop();
+      else if (pending.size) timer = setTimeout(drain, o.debounceMs);
+    })();
+  };
+
+  resubscribe();
+  if (!o.quiet) console.log(`[subscribe] watching ${subs.size} accounts (pool + arrays); Ctrl-C to stop`);
+  const dispose = onShutdown("subscribe", stop);
+  try {
+    await finished;
+    await inflight;
+  } finally {
+    dispose();
+    await Promise.all([...subs.values()].map((id) => conn.removeAccountChangeListener(id)));
+    if (record !== undefined) fs.closeSync(record);
+  }
+  if (!o.quiet) console.log(`[subscribe] stopped after ${events} re-quote(s)`);
+}
@@ -0,0 +1,305 @@
+/**
+ * Token metadata: symbol, name, decimals and class (USD stablecoin, BTC) of a mint.
+ * Names come from the first source that knows the mint:
+ * 1. the token list (Solana token-list JSON, default config/tokens.json): local overrides and tags
+ * 2. RPC: the Token-2022 metadata extension on the mint, else the Metaplex metadata account
+ * 3. the on-disk cache of earlier RPC lookups (default data/cache/tokens.json), which also
+ *    saves the RPC lookup while it is less than a week old
+ * Decimals always come from the mint account, once per connection: a wrong list entry would
+ * scale every amount by a power of ten. List decimals that disagree are reported.
+ * The same read lists a Token-2022 mint's extensions and its transfer fee (transfer_fee.ts).
+ */
+
+import fs from "fs";
+import path from "path";
+import { PublicKey, type AccountInfo, type Connection } from "@solana/web3.js";
+
+import {
+  TRANSFER_FEE_CONFIG_EXTENSION,
+  activeTransferFee,
+  decodeTransferFeeConfig,
+  sameFee,
+  type TransferFee,
+  type TransferFeeConfig,
+} from "./transfer_fee.js";
+import { USDC, WSOL } from "./utils.js";
+
+export const TOKEN_PROGRAM = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+export const TOKEN_2022_PROGRAM = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+export const MINT_SIZE = 82;
+const METAPLEX_METADATA_PROGRAM = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
+
+export const DEFAULT_TOKEN_LIST = "config/tokens.json";
+export const DEFAULT_TOKEN_CACHE = "data/cache/tokens.json";
+
+/** Token-2022 TLV extensions start after the 165-byte base and the account-type byte */
+const EXTENSIONS_OFFSET = 166;
+const TOKEN_METADATA_EXTENSION = 19;
+const CACHE_TTL_MS = 7 * 86_400_000;
+const MAX_ACCOUNTS_PER_CALL = 100;
+
+/** Token-2022 extension types (spl-token-2022 ExtensionType), as named in warnings */
+const EXTENSION_NAMES: Record<number, string> = {
+  1: "transfer_fee", 3: "mint_close_authority", 4: "confidential_transfer", 6: "default_account_state",
+  9: "non_transferable", 10: "interest_bearing", 12: "permanent_delegate", 14: "transfer_hook",
+  16: "confidential_transfer_fee", 18: "metadata_pointer", 19: "token_metadata", 20: "group_pointer",
+  21: "token_group", 22: "group_member_pointer", 23: "token_group_member", 24: "confidential_mint_burn",
+  25: "scaled_ui_amount", 26: "pausable",
+};
+
+/** Never read for these: old snapshots did not record their mint accounts */
+const KNOWN_DECIMALS: Record<string, number> = { [USDC]: 6, [WSOL]: 9 };
+
+/* -------------------------------- Types ---------------------------------- */
+export type TokenSource = "list" | "token-2022" | "metaplex" | "none";
+export type TokenProgram = "spl-token" | "token-2022";
+
+export type TokenMeta = {
+  mint: string;
+  symbol: string;             // "" when no source knows it
+  name: string;
+  tags: string[];             // from the list: usd (USD stablecoin), btc (BTC wrapper), ...
+  source: TokenSource;
+  program?: TokenProgram;
+};
+
+export type TokenConfig = {
+  listPath?: string;          // default: DEFAULT_TOKEN_LIST when it exists
+  cachePath?: string;         // default: DEFAULT_TOKEN_CACHE; "" disables the cache
+};
+
+export type TokenResolver = {
+  /** Read whatever is not known yet for `mints` (batched); never throws for a missing mint */
+  resolve: (mints: string[]) => Promise<void>;
+  /** Decimals from the mint accounts; throws when a mint cannot be read */
+  decimalsOf: (mints: string[]) => Promise<number[]>;
+  meta: (mint: string) => TokenMeta | undefined;
+  /** Token-2022 extensions of a resolved mint (names, e.g. transfer_fee, transfer_hook); [] for SPL Token */
+  extensions: (mint: string) => string[];
+  /** Transfer fee in force now per mint (undefined: none); reads the epoch only while a schedule changes */
+  transferFees: (mints: string[]) => Promise<(TransferFee | undefined)[]>;
+  /** Symbol, "" when unknown */
+  symbol: (mint: string) => string;
+  /** "USDC" / "sol" -> mint (list first, then cache); anything else is returned as given */
+  mintFor: (symbolOrMint: string) => string;
+  isUsdStable: (mint: string) => boolean;
+  isBtc: (mint: string) => boolean;
+};
+
+type ListEntry = { address: string; symbol?: string; name?: string; decimals?: number; tags?: string[] };
+
+type CacheEntry = { symbol: string; name: string; source: TokenSource; program?: TokenProgram; fetchedAt: string };
+
+/* -------------------------------- Decoding --------------------------------- */
+/** Borsh string (u32 length + utf8) at `o`; Metaplex pads with NULs */
+function borshString(b: Buffer, o: number): { value: string; next: number } {
+  const len = b.readUInt32LE(o);
+  if (o + 4 + len > b.length) throw new RangeError("string past end of account");
+  return { value: b.toString("utf8", o + 4, o + 4 + len).replace(/\0+$/g, "").trim(), next: o + 4 + len };
+}
+
+/** Token-2022 mint extensions (TLV: type u16, length u16, value), by type; stops at a malformed entry */
+export function mintExtensions(data: Buffer): Map<number, Buffer> {
+  const out = new Map<number, Buffer>();
+  for (let o = EXTENSIONS_OFFSET; o + 4 <= data.length;) {
+    const type = data.readUInt16LE(o);
+    const len = data.readUInt16LE(o + 2);
+    if (type === 0 || o + 4 + len > data.length) break;   // uninitialized padding
+    out.set(type, data.subarray(o + 4, o + 4 + len));
+    o += 4 + len;
+  }
+  return out;
+}
+
+/** Name and symbol of a TokenMetadata extension value */
+export function decodeToken2022Metadata(ext: Buffer): { name: string; symbol: string } | undefined {
+  try {
+    // update_authority (32) + mint (32), then name, symbol, uri
+    const name = borshString(ext, 64);
+    const symbol = borshString(ext, name.next);
+    return { name: name.value, symbol: symbol.value };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Name and symbol of a Metaplex metadata account */
+export function decodeMetaplexMetadata(data: Buffer): { name: string; symbol: string } | undefined {
+  try {
+    // key (1) + update_authority (32) + mint (32), then name, symbol, uri
+    const name = borshString(data, 65);
+    const symbol = borshString(data, name.next);
+    return { name: name.value, symbol: symbol.value };
+  } catch {
+    return undefined;
+  }
+}
+
+export const metaplexMetadataPda = (mint: PublicKey): PublicKey =>
+  PublicKey.findProgramAddressSync(
+    [Buffer.from("metadata"), METAPLEX_METADATA_PROGRAM.toBuffer(), mint.toBuffer()],
+    METAPLEX_METADATA_PROGRAM
+  )[0];
+
+const programOf = (a: AccountInfo<Buffer> | null): TokenProgram | undefined => {
+  if (!a || a.data.length < MINT_SIZE) return undefined;
+  const owner = a.owner.toBase58();
+  return owner === TOKEN_PROGRAM ? "spl-token" : owner === TOKEN_2022_PROGRAM ? "token-2022" : undefined;
+};
+
+/* -------------------------------- Storage ---------------------------------- */
+function readTokenList(file: string): Map<string, ListEntry> {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8")) as { tokens?: ListEntry[] } | ListEntry[];
+  const entries = Array.isArray(raw) ? raw : raw.tokens;
+  if (!Array.isArray(entries)) throw new Error(`${file}: expected a token list ({ "tokens": [...] } or an array)`);
+  return new Map(entries.filter((e) => typeof e?.address === "string").map((e) => [e.address, e]));
+}
+
+function readCache(file: string): Record<string, CacheEntry> {
+  if (!file || !fs.existsSync(file)) return {};
+  try {
+    return (JSON.parse(fs.readFileSync(file, "utf8")) as { tokens?: Record<string, CacheEntry> }).tokens ?? {};
+  } catch {
+    console.warn(`⚠️  [tokens] ignoring unreadable cache ${file}`);
+    return {};
+  }
+}
+
+/* -------------------------------- Resolver --------------------------------- */
+export function mkTokenResolver(conn: Connection, cfg: TokenConfig = {}): TokenResolver {
+  const listPath = cfg.listPath ?? (fs.existsSync(DEFAULT_TOKEN_LIST) ? DEFAULT_TOKEN_LIST : undefined);
+  const list = listPath ? readTokenList(listPath) : new Map<string, ListEntry>();
+  const cachePath = cfg.cachePath ?? DEFAULT_TOKEN_CACHE;
+  const cache = readCache(cachePath);
+
+  const decimals = new Map<string, number>(Object.entries(KNOWN_DECIMALS));
+  const fetched = new Map<string, Omit<TokenMeta, "mint" | "tags">>();   // this process's RPC lookups
+  const extensionTypes = new Map<string, number[]>();
+  const feeConfigs = new Map<string, TransferFeeConfig>();
+
+  const meta = (mint: string): TokenMeta | undefined => {
+    const l = list.get(mint);
+    const f = fetched.get(mint);
+    const c = cache[mint];
+    if (!l && !f && !c) return undefined;
+    const rpc = f?.symbol ? f : c?.symbol ? c : f ?? c;
+    return {
+      mint,
+      symbol: l?.symbol || rpc?.symbol || "",
+      name: l?.name || rpc?.name || "",
+      tags: l?.tags ?? [],
+      source: l?.symbol ? "list" : rpc?.source ?? "none",
+      program: f?.program ?? c?.program,
+    };
+  };
+
+  const fresh = (mint: string) => {
+    const c = cache[mint];
+    return c !== undefined && Date.now() - new Date(c.fetchedAt).getTime() < CACHE_TTL_MS;
+  };
+
+  const getAccounts = async (keys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> => {
+    const out: (AccountInfo<Buffer> | null)[] = [];
+    for (let i = 0; i < keys.length; i += MAX_ACCOUNTS_PER_CALL) {
+      out.push(...(await conn.getMultipleAccountsInfo(keys.slice(i, i + MAX_ACCOUNTS_PER_CALL))));
+    }
+    return out;
+  };
+
+  const resolve = async (mints: string[]) => {
+    const todo = [...new Set(mints)].filter((m) => !fetched.has(m));
+    if (todo.length === 0) return;
+
+    // Mint accounts: decimals, program, Token-2022 metadata
+    const readMints = todo.filter((m) => !decimals.has(m));
+    const mintAccounts = await getAccounts(readMints.map((m) => new PublicKey(m)));
+    readMints.forEach((mint, i) => {
+      const acc = mintAccounts[i];
+      const program = programOf(acc);
+      if (!acc || !program) return;
+      const dec = acc.data.readUInt8(44);
+      decimals.set(mint, dec);
+      const listed = list.get(mint)?.decimals;
+      if (listed !== undefined && listed !== dec) {
+        console.warn(`⚠️  [tokens] ${listPath}: ${mint} lists ${listed} decimals, the mint has ${dec}; using ${dec}`);
+      }
+      const exts = program === "token-2022" ? mintExtensions(acc.data) : new Map<number, Buffer>();
+      extensionTypes.set(mint, [...exts.keys()]);
+      const feeExt = exts.get(TRANSFER_FEE_CONFIG_EXTENSION);
+      if (feeExt) feeConfigs.set(mint, decodeTransferFeeConfig(feeExt));
+      const mdExt = exts.get(TOKEN_METADATA_EXTENSION);
+      const ext = mdExt ? decodeToken2022Metadata(mdExt) : undefined;
+      fetched.set(mint, ext?.symbol ? { ...ext, source: "token-2022", program } : { symbol: "", name: "", source: "none", program });
+    });
+
+    // Metaplex metadata for the rest, unless the list or a fresh cache entry already names them
+    const needMetaplex = todo.filter((m) => !fetched.get(m)?.symbol && !list.get(m)?.symbol && !fresh(m));
+    const metaplex = await getAccounts(needMetaplex.map((m) => metaplexMetadataPda(new PublicKey(m))));
+    needMetaplex.forEach((mint, i) => {
+      const md = metaplex[i] ? decodeMetaplexMetadata(metaplex[i]!.data) : undefined;
+      const program = fetched.get(mint)?.program;
+      fetched.set(mint, md?.symbol ? { ...md, source: "metaplex", program } : { symbol: "", name: "", source: "none", program });
+    });
+    for (const m of todo) if (!fetched.has(m)) fetched.set(m, { symbol: "", name: "", source: "none" });
+
+    // Cache what RPC found; a miss (e.g. a replay without metadata accounts) never replaces a name
+    if (!cachePath) return;
+    let changed = false;
+    for (const mint of needMetaplex.concat(todo.filter((m) => fetched.get(m)?.source === "token-2022"))) {
+      const f = fetched.get(mint)!;
+      if (!f.symbol && cache[mint]?.symbol) continue;
+      cache[mint] = { symbol: f.symbol, name: f.name, source: f.source, program: f.program, fetchedAt: new Date().toISOString() };
+      changed = true;
+    }
+    if (changed) {
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+      fs.writeFileSync(cachePath, JSON.stringify({ version: 1, tokens: cache }, null, 2) + "\n");
+    }
+  };
+
+  const decimalsOf = async (mints: string[]) => {
+    await resolve(mints.filter((m) => !decimals.has(m)));
+    return mints.map((m) => {
+      const d = decimals.get(m);
+      if (d === undefined) throw new Error(`Mint ${m}: decimals not readable from the mint account`);
+      return d;
+    });
+  };
+
+  const transferFees = async (mints: string[]) => {
+    await resolve(mints);
+    const configs = mints.map((m) => feeConfigs.get(m));
+    const changing = configs.some((c) => c && !sameFee(c.older, c.newer));
+    const epoch = changing ? (await conn.getEpochInfo()).epoch : undefined;
+    return configs.map((c) => (c ? activeTransferFee(c, epoch) : undefined));
+  };
+
+  const mintFor = (symbolOrMint: string) => {
+    const s = symbolOrMint.trim().toUpperCase();
+    for (const e of list.values()) if (e.symbol?.toUpperCase() === s) return e.address;
+    for (const [mint, c] of Object.entries(cache)) if (c.symbol.toUpperCase() === s) return mint;
+    return symbolOrMint.trim();
+  };
+
+  return {
+    resolve,
+    decimalsOf,
+    meta,
+    extensions: (mint) => (extensionTypes.get(mint) ?? []).map((t) => EXTENSION_NAMES[t] ?? `extension_${t}`),
+    transferFees,
+    symbol: (mint) => meta(mint)?.symbol ?? "",
+    mintFor,
+    isUsdStable: (mint) => list.get(mint)?.tags?.includes("usd") ?? false,
+    isBtc: (mint) => list.get(mint)?.tags?.includes("btc") ?? false,
+  };
+}
+
+/** One resolver per Connection (decimals and lookups are shared by every adapter on it) */
+const resolvers = new WeakMap<Connection, TokenResolver>();
+
+/** The connection's resolver; `cfg` applies to the call that creates it (the CLI's, first) */
+export function tokensFor(conn: Connection, cfg?: TokenConfig): TokenResolver {
+  let r = resolvers.get(conn);
+  if (!r) resolvers.set(conn, (r = mkTokenResolver(conn, cfg)));
+  return r;
+}
@@ -0,0 +1,65 @@
+/**
+ * Token-2022 transfer fees. A mint with the TransferFeeConfig extension withholds
+ * min(ceil(amount * bps / 1e4), maximumFee) from every transfer, so around a swap:
+ * - the pool receives the trader's input minus the input mint's fee;
+ * - the trader receives the pool's output minus the output mint's fee.
+ * The venue SDKs pinned here quote pool-side amounts; probe.ts converts to what the
+ * trader sends and receives with transferFeeOn / grossUp (same rounding as spl-token-2022).
+ */
+
+import BN from "bn.js";
+
+/* -------------------------------- Types ---------------------------------- */
+/** One fee schedule of the extension; `epoch` is the first epoch it applies to */
+export type TransferFee = { epoch: bigint; maximumFee: bigint; bps: number };
+
+/** The extension keeps the schedule in force and the next one (set two epochs ahead) */
+export type TransferFeeConfig = { older: TransferFee; newer: TransferFee };
+
+const ONE_IN_BPS = 10_000;
+export const TRANSFER_FEE_CONFIG_EXTENSION = 1;
+
+/* -------------------------------- Decoding --------------------------------- */
+/**
+ * TransferFeeConfig extension value: config authority (32), withdraw authority (32),
+ * withheld amount (u64), then older and newer TransferFee { epoch u64, maximum_fee u64, bps u16 }.
+ */
+export function decodeTransferFeeConfig(ext: Buffer): TransferFeeConfig {
+  if (ext.length < 108) throw new RangeError(`TransferFeeConfig is ${ext.length} bytes, expected 108`);
+  const fee = (o: number): TransferFee => ({
+    epoch: ext.readBigUInt64LE(o),
+    maximumFee: ext.readBigUInt64LE(o + 8),
+    bps: ext.readUInt16LE(o + 16),
+  });
+  return { older: fee(72), newer: fee(90) };
+}
+
+/** The schedule in force at `epoch`; undefined epoch is fine when both schedules agree */
+export function activeTransferFee(cfg: TransferFeeConfig, epoch?: number): TransferFee {
+  if (sameFee(cfg.older, cfg.newer)) return cfg.newer;
+  if (epoch === undefined) throw new Error("transfer fee schedule is changing: the current epoch is needed");
+  return BigInt(epoch) >= cfg.newer.epoch ? cfg.newer : cfg.older;
+}
+
+export const sameFee = (a: TransferFee, b: TransferFee) => a.bps === b.bps && a.maximumFee === b.maximumFee;
+
+/* --------------------------------- Math ------------------------------------ */
+const ceilDiv = (n: bigint, d: bigint) => (n + d - 1n) / d;
+const toBig = (x: BN) => BigInt(x.toString());
+const toBN = (x: bigint) => new BN(x.toString());
+
+/** Withheld from a transfer of `amount` (spl-token-2022 calculate_fee) */
+export function transferFeeOn(amount: BN, fee: TransferFee | undefined): BN {
+  if (!fee || fee.bps === 0 || amount.isZero()) return new BN(0);
+  const raw = ceilDiv(toBig(amount) * BigInt(fee.bps), BigInt(ONE_IN_BPS));
+  return toBN(raw < fee.maximumFee ? raw : fee.maximumFee);
+}
+
+/** What to send so that `net` arrives (spl-token-2022 calculate_pre_fee_amount) */
+export function grossUp(net: BN, fee: TransferFee | undefined): BN {
+  if (!fee || fee.bps === 0 || net.isZero()) return net;
+  const post = toBig(net);
+  if (fee.bps === ONE_IN_BPS) return toBN(post + fee.maximumFee);
+  const pre = ceilDiv(post * BigInt(ONE_IN_BPS), BigInt(ONE_IN_BPS - fee.bps));
+  return toBN(pre - post >= fee.maximumFee ? post + fee.maximumFee : pre);
+}
@@ -0,0 +1,89 @@
+/**
+ * Exact unit accounting for quotes: raw BN amounts -> UI amounts through the
+ * mint decimals, with the units spelled out, plus the checks that replace the
+ * old power-of-ten "unit guard".
+ *
+ * Two invariants catch unit slips without guessing a rescale:
+ *  - every decimals reading for a mint agrees (mint account, pool account, API);
+ *  - no-arbitrage: BUY (QUOTE->BASE exact-in) never executes below mid and SELL
+ *    (BASE->QUOTE exact-out) never above it. Fees and rounding both favour the
+ *    pool, so a violation means the amounts and the mid are in different units.
+ */
+
+import type BN from "bn.js";
+import Decimal from "decimal.js";
+
+/* -------------------------------- Types ---------------------------------- */
+/** warn: flag the row and keep it; diagnose: also print the raw->UI trace; strict: fail the row */
+export type UnitCheckMode = "warn" | "diagnose" | "strict";
+export const UNIT_CHECK_MODES: readonly UnitCheckMode[] = ["warn", "diagnose", "strict"];
+
+/** One amount with its units: raw integer, mint and the decimals used to scale it */
+export type TokenAmount = {
+  raw: BN;
+  mint: string;
+  decimals: number;
+  ui: Decimal;                // raw / 10^decimals
+};
+
+/** One leg of a roundtrip, traced from the raw quote to QUOTE per BASE */
+export type LegTrace = {
+  leg: "buy" | "sell";
+  quote: TokenAmount;
+  base: TokenAmount;
+  pxQuotePerBase: Decimal;    // quote.ui / base.ui
+  ratioToMid: Decimal;        // pxQuotePerBase / mid
+};
+
+/** Relative slack on the no-arbitrage bound (mid is derived from a rounded sqrt price) */
+export const NO_ARB_SLACK = new Decimal("1e-6");
+
+/* ------------------------------- Accounting ------------------------------- */
+export function tokenAmount(raw: BN, mint: string, decimals: number): TokenAmount {
+  return { raw, mint, decimals, ui: new Decimal(raw.toString()).div(Decimal.pow(10, decimals)) };
+}
+
+export function traceLeg(leg: "buy" | "sell", quote: TokenAmount, base: TokenAmount, mid: Decimal): LegTrace {
+  if (base.ui.isZero()) throw new Error(`${leg.toUpperCase()} has zero BASE amount`);
+  const pxQuotePerBase = quote.ui.div(base.ui);
+  return { leg, quote, base, pxQuotePerBase, ratioToMid: pxQuotePerBase.div(mid) };
+}
+
+/* -------------------------------- Checks ---------------------------------- */
+/**
+ * Decimals readings by source (e.g. { mint: [6, 9], pool: [6, 9] }) must agree.
+ * Returns the reason when they do not (no commas: it lands in a CSV cell).
+ */
+export function checkDecimals(decimalsBy: Record<string, [number, number]> | undefined): string | null {
+  const entries = Object.entries(decimalsBy ?? {});
+  if (entries.length < 2) return null;
+  const [ref, [a0, b0]] = entries[0];
+  for (const [src, [a, b]] of entries.slice(1)) {
+    if (a !== a0 || b !== b0) {
+      return `decimals disagree: ${ref}=${a0}/${b0} vs ${src}=${a}/${b}`;
+    }
+  }
+  return null;
+}
+
+/** No-arbitrage bound on one leg. Returns the reason when it is violated. */
+export function checkLeg(t: LegTrace): string | null {
+  const below = t.leg === "buy" && t.ratioToMid.lt(new Decimal(1).sub(NO_ARB_SLACK));
+  const above = t.leg === "sell" && t.ratioToMid.gt(new Decimal(1).add(NO_ARB_SLACK));
+  if (!below && !above) return null;
+  const k = Math.round(Decimal.log10(t.ratioToMid).toNumber());
+  const hint = k !== 0 ? ` (~10^${k}, likely a decimals slip)` : "";
+  return `${t.leg.toUpperCase()} px ${below ? "below" : "above"} mid: ratio=${t.ratioToMid.toSignificantDigits(8).toString()}${hint}`;
+}
+
+/** Console lines for --unitCheck diagnose */
+export function formatTrace(t: LegTrace, quoteSymbol: string, baseSymbol: string): string[] {
+  const amt = (a: TokenAmount, sym: string) =>
+    `${a.raw.toString()} raw / 10^${a.decimals} = ${a.ui.toString()} ${sym || a.mint.slice(0, 4)}`;
+  return [
+    `  [units] ${t.leg.toUpperCase()} quote: ${amt(t.quote, quoteSymbol)}`,
+    `  [units] ${t.leg.toUpperCase()} base:  ${amt(t.base, baseSymbol)}`,
+    `  [units] ${t.leg.toUpperCase()} px=${t.pxQuotePerBase.toSignificantDigits(12).toString()} ${quoteSymbol}/${baseSymbol}` +
+      `  px/mid=${t.ratioToMid.toSignificantDigits(10).toString()}`,
+  ];
+}
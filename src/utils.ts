@@ -1,26 +1,17 @@
-import { PublicKey } from "@solana/web3.js";
+import Decimal from "decimal.js";
 
-/** Well-known mints */
+/** Well-known mints (symbols, names and classes live in the token list, see tokens.ts) */
 export const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
 export const WSOL = "So11111111111111111111111111111111111111112";
 export const WBTC = "9n4nbM75f5Ui33ZbPYXn59EwSgE8CGsHtAeTH5YFeJ9E";
+export const USDT = "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB";
+
+/** Orca SOL/USDC Whirlpool, the default SOL/USD oracle in --usdMode (any --dex) */
+export const SOL_USDC_WHIRLPOOL = "Czfq3xZZDmsdGdUyrNLtRhGc47cXcZtLG4crryfu44zE";
 
 /** Q64.64 constant used by both Orca and Raydium price math */
 export const Q64 = 2n ** 64n;
 
-/** Light symbol map (extend as you wish) */
-const SYMBOL_MAP: Record<string, string> = {
-  [USDC]: "USDC",
-  [WSOL]: "SOL",
-  [WBTC]: "WBTC",
-};
-
-/** Pretty print a mint as a short symbol or short base58 */
-export function prettySymbol(mint: string | PublicKey): string {
-  const k = typeof mint === "string" ? mint : mint.toBase58();
-  return SYMBOL_MAP[k] ?? k.slice(0, 4);
-}
-
 /** Decimal helper without bringing a big library in here */
 export function bnToNumber(bn: bigint, decimals: number): number {
   const base = 10n ** BigInt(decimals);
@@ -43,6 +34,7 @@ export function midBPerA_fromSqrtX64(sqrtPriceX64: bigint, decA: number, decB: n
  * If one side is USDC, derive USD per A.
  * - If B = USDC -> USD per A = B per A
  * - If A = USDC -> USD per A = 1 / (B per A)
+ * - Neither     -> NaN (needs a USD price source, see price_sources.ts)
  * Returns: { midUsdPerA, isUsdA, isUsdB }
  */
 export function midUsdPerA_fromSqrt(
@@ -55,10 +47,52 @@ export function midUsdPerA_fromSqrt(
   const isUsdA = mintA === USDC;
   const isUsdB = mintB === USDC;
   const pxBperA = midBPerA_fromSqrtX64(sqrtPriceX64, decA, decB);
-  const midUsdPerA = isUsdB ? pxBperA : isUsdA ? 1 / pxBperA : pxBperA; // falls back to B/A if no USDC
+  const midUsdPerA = isUsdB ? pxBperA : isUsdA ? 1 / pxBperA : Number.NaN;
   return { midUsdPerA, isUsdA, isUsdB };
 }
 
+/** Same as midBPerA_fromSqrtX64 but in Decimal (BN/bigint/string sqrt price) */
+export function pxBperA_fromSqrt(sqrtPriceX64: { toString(): string }, decA: number, decB: number): Decimal {
+  const sqrt = new Decimal(sqrtPriceX64.toString());
+  const ratio = sqrt.div(new Decimal(String(Q64))); // Q64 is bigint
+  return ratio.mul(ratio).mul(new Decimal(10).pow(decA - decB)); // B per A
+}
+
+/**
+ * Size ladder from --sizes (comma list) or --range (start:end:step).
+ * If both are given, range wins. Throws on an unusable ladder.
+ */
+export function parseSizes(argvSizes: string, range?: string): number[] {
+  if (range) {
+    const [a, b, s] = range.split(":").map((x: string) => Number(x.trim()));
+    if (![a, b, s].every(Number.isFinite) || !(s > 0) || !(b >= a)) {
+      throw new Error(`Invalid --range "${range}". Expected start:end:step with positives.`);
+    }
+    const out: number[] = [];
+    for (let v = a; v <= b; v += s) out.push(v);
+    return out;
+  }
+  const arr = argvSizes
+    .split(",")
+    .map((s: string) => Number(s.trim()))
+    .filter((n: number) => Number.isFinite(n) && n > 0);
+  if (!arr.length) {
+    throw new Error(`No valid --sizes parsed from "${argvSizes}". Use comma list, e.g. --sizes 1000,5000,10000`);
+  }
+  return arr;
+}
+
+export const sleep = (ms: number): Promise<void> => new Promise((r) => setTimeout(r, ms));
+
 /** bps utilities */
 export const toBps = (x: number) => x * 1e4;
 export const abs = (x: number) => (x < 0 ? -x : x);
+
+/** Linear-interpolated percentile of a sorted list, p in 0..1 (NaN when empty) */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return Number.NaN;
+  const x = (sorted.length - 1) * p;
+  const lo = Math.floor(x);
+  const hi = Math.ceil(x);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (x - lo);
+}
@@ -0,0 +1,95 @@
+/**
+ * Long-running probing (`--watch`): one process re-runs a probe cycle on a schedule,
+ * keeping the connection, SDK clients, adapters and mint decimals between cycles.
+ * - Schedule: every `intervalSec` start-to-start, ± `jitterPct` so many watchers spread out
+ * - Backoff: after a failed cycle (RPC errors), wait interval·2^failures, capped at `maxBackoffSec`
+ * - Shutdown: SIGINT/SIGTERM finish the current cycle and return, so the caller closes its
+ *   output; a second signal exits at once
+ */
+
+/* -------------------------------- Types ---------------------------------- */
+export type WatchOptions = {
+  intervalSec: number;
+  jitterPct: number;
+  maxBackoffSec: number;
+  quiet: boolean;
+};
+
+/** One cycle; resolves false (or throws) when it hit errors worth backing off for */
+export type WatchCycle = (cycle: number) => Promise<boolean>;
+
+/* -------------------------------- Schedule -------------------------------- */
+/** Wait before the next cycle, in ms, after `failures` failed cycles in a row */
+export function nextDelayMs(o: WatchOptions, failures: number): number {
+  const base = failures > 0
+    ? Math.min(o.intervalSec * 2 ** failures, Math.max(o.maxBackoffSec, o.intervalSec))
+    : o.intervalSec;
+  const jitter = base * (o.jitterPct / 100) * (Math.random() * 2 - 1);
+  return Math.max(0, (base + jitter) * 1000);
+}
+
+/* ---------------------------------- Loop ---------------------------------- */
+/**
+ * SIGINT/SIGTERM handling for long-running loops: the first signal calls `stop`
+ * (finish the current work, then return), a second exits at once. Returns the remover.
+ */
+export function onShutdown(label: string, stop: () => void): () => void {
+  let stopping = false;
+  const onSignal = (sig: NodeJS.Signals) => {
+    if (stopping) {
+      console.error(`[${label}] ${sig} again: exiting now`);
+      process.exit(130);
+    }
+    stopping = true;
+    console.error(`[${label}] ${sig}: finishing the current cycle, then closing the output (again to exit now)`);
+    stop();
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+  return () => {
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
+  };
+}
+
+export async function runWatch(cycle: WatchCycle, o: WatchOptions): Promise<void> {
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const dispose = onShutdown("watch", () => {
+    stopping = true;
+    wake?.();
+  });
+
+  let failures = 0;
+  try {
+    for (let n = 1; !stopping; n++) {
+      const started = Date.now();
+      let ok: boolean;
+      try {
+        ok = await cycle(n);
+      } catch (e: unknown) {
+        ok = false;
+        console.error(`[watch] cycle ${n} failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      failures = ok ? 0 : failures + 1;
+      if (stopping) break;
+
+      // Healthy cycles keep a start-to-start cadence; backoff waits from the failure
+      const delay = Math.max(0, nextDelayMs(o, failures) - (ok ? Date.now() - started : 0));
+      if (!o.quiet || !ok) {
+        const state = ok ? "ok" : `failed (${failures} in a row, backing off)`;
+        console.log(`[watch] cycle ${n} ${state}; next in ${(delay / 1000).toFixed(1)}s`);
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, delay);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = null;
+    }
+  } finally {
+    dispose();
+  }
+}
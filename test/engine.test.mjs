@@ -0,0 +1,41 @@
+// Tick math of the native engine against each program's own values (run on dist/: npm test)
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { MAX_SQRT_PRICE_X64, MAX_TICK, MIN_SQRT_PRICE_X64, MIN_TICK, sqrtPriceAtTick, tickAtSqrtPrice } from "../dist/engine.js";
+
+const Q64 = 1n << 64n;
+
+// tick -> sqrt price (Q64.64) of the Whirlpool and Raydium CLMM programs
+const KNOWN = [
+  { tick: -100, whirlpool: 18354745142194483561n, raydium: 18354745142194513203n },
+  { tick: -1, whirlpool: 18445821805675392311n, raydium: 18445821805675395072n },
+  { tick: 0, whirlpool: Q64, raydium: Q64 },
+  { tick: 1, whirlpool: 18447666387855959850n, raydium: 18447666387855957090n },
+  { tick: 100, whirlpool: 18539204128674405812n, raydium: 18539204128674375874n },
+];
+
+for (const math of ["whirlpool", "raydium"]) {
+  test(`${math}: MIN_TICK and MAX_TICK land on the program's sqrt price bounds`, () => {
+    assert.equal(sqrtPriceAtTick(MIN_TICK, math), MIN_SQRT_PRICE_X64);
+    assert.equal(sqrtPriceAtTick(MAX_TICK, math), MAX_SQRT_PRICE_X64[math]);
+    assert.throws(() => sqrtPriceAtTick(MAX_TICK + 1, math), /out of range/);
+  });
+
+  test(`${math}: known ticks`, () => {
+    for (const k of KNOWN) assert.equal(sqrtPriceAtTick(k.tick, math), k[math], `tick ${k.tick}`);
+  });
+
+  test(`${math}: tickAtSqrtPrice inverts sqrtPriceAtTick`, () => {
+    for (const tick of [MIN_TICK, -100, -1, 0, 1, 100, MAX_TICK]) {
+      const sqrt = sqrtPriceAtTick(tick, math);
+      assert.equal(tickAtSqrtPrice(sqrt, math), tick);
+      if (tick < MAX_TICK) assert.equal(tickAtSqrtPrice(sqrt - 1n, math), Math.max(tick - 1, MIN_TICK));
+    }
+  });
+}
+
+test("Whirlpool and Raydium round differently away from tick 0", () => {
+  assert.notEqual(sqrtPriceAtTick(1, "whirlpool"), sqrtPriceAtTick(1, "raydium"));
+  assert.notEqual(MAX_SQRT_PRICE_X64.whirlpool, MAX_SQRT_PRICE_X64.raydium);
+});
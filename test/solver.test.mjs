@@ -0,0 +1,33 @@
+// Inverse solver: unquotable notionals cap a target, other failures end it as status error
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { solveTargets } from "../dist/solver.js";
+
+// Cost grows 1 bps per 100 QUOTE on every side, no fees
+const linear = (q) => ({ buyBps: q / 100, sellBps: q / 100, rtBps: q / 50, buyFeeBps: 0, sellFeeBps: 0 });
+
+test("a notional the pool cannot fill counts as over the target", async () => {
+  const out = await solveTargets(async (q) => (q > 500 ? null : linear(q)), [10], "impact", 1);
+  const buy = out.find((t) => t.side === "buy");
+  assert.equal(buy.status, "liquidity");
+  assert.ok(buy.maxQuote <= 500 && buy.maxQuote > 490);
+  assert.equal(buy.reason, "");
+});
+
+test("any other failure is reported per target with the reason", async () => {
+  let calls = 0;
+  const out = await solveTargets(async (q) => {
+    calls++;
+    if (q > 8) throw new Error("unit mismatch: buy leg");
+    return linear(q);
+  }, [5, 10], "impact", 1);
+  assert.equal(out.length, 6);
+  for (const t of out) {
+    assert.equal(t.status, "error");
+    assert.equal(t.reason, "unit mismatch: buy leg");
+    assert.ok(Number.isNaN(t.maxQuote));
+  }
+  // 1, 2, 4, 8 and 16 quoted once each, shared by every side and target
+  assert.equal(calls, 5);
+});
@@ -0,0 +1,78 @@
+// --subscribe against the mock PubSub server: recorded updates in, one re-quote per trigger out
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { PublicKey } from "@solana/web3.js";
+
+import { startMockWs, readUpdates } from "../dist/mock_ws.js";
+import { ReplayConnection } from "../dist/snapshot.js";
+import { runSubscription } from "../dist/subscribe.js";
+
+const POOL = new PublicKey(Buffer.alloc(32, 1)).toBase58();
+const ARRAY = new PublicKey(Buffer.alloc(32, 2)).toBase58();
+const OWNER = new PublicKey(Buffer.alloc(32, 3)).toBase58();
+const PORT = 18900 + (process.pid % 500);
+
+const update = (pubkey, slot, byte) => ({
+  pubkey, slot,
+  account: { owner: OWNER, lamports: 1_000_000, executable: false, rentEpoch: 0, data: Buffer.alloc(8, byte).toString("base64") },
+});
+
+const snapshot = () => ({
+  version: 1, dex: "orca", pool: POOL, slot: 100, minSlot: 100,
+  capturedAt: new Date().toISOString(), rpc: "test", accounts: {}, extras: {},
+});
+
+// Only what runSubscription needs: the accounts to watch
+const adapter = {
+  dex: "orca",
+  watchAccounts: () => [{ pubkey: POOL, kind: "pool" }, { pubkey: ARRAY, kind: "tick_array" }],
+};
+
+/** Replay `updates` to a subscription; the triggers it re-quoted on and the connection */
+async function replay(updates, ws, sub) {
+  const server = await startMockWs(updates, { port: PORT, startDelayMs: 100, exitWhenDone: false, quiet: true, ...ws });
+  const conn = new ReplayConnection(snapshot(), `ws://127.0.0.1:${PORT}`);
+  const triggers = [];
+  try {
+    await runSubscription(conn, adapter, async (t) => { triggers.push(t); }, { arraysEachSide: 1, quiet: true, ...sub });
+    // web3.js closes its socket 500 ms after the last unsubscribe; closing the server first makes it reconnect
+    await new Promise((r) => setTimeout(r, 800));
+  } finally {
+    await server.close();
+  }
+  return { triggers, conn };
+}
+
+test("each spaced-out update re-quotes at its own slot and is recorded", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "clamm-sub-"));
+  const recordUpdates = path.join(dir, "updates.jsonl");
+  const updates = [update(POOL, 101, 1), update(ARRAY, 103, 2), update(POOL, 105, 3)];
+
+  const { triggers, conn } = await replay(updates, { intervalMs: 400 }, { debounceMs: 50, maxEvents: 3, recordUpdates });
+
+  assert.deepEqual(triggers, [
+    { slot: 100, accounts: "initial" },
+    { slot: 101, accounts: "pool" },
+    { slot: 103, accounts: `tick_array:${ARRAY}` },
+    { slot: 105, accounts: "pool" },
+  ]);
+  assert.deepEqual(readUpdates(recordUpdates), updates);
+  // Later reads see the replayed accounts at the latest slot
+  assert.equal(conn.snapshot.slot, 105);
+  assert.equal(conn.snapshot.accounts[POOL].data, updates[2].account.data);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("updates within the debounce window make one re-quote at the highest slot", async () => {
+  const updates = [update(POOL, 101, 1), update(ARRAY, 102, 2)];
+
+  const { triggers } = await replay(updates, { intervalMs: 20 }, { debounceMs: 300, maxEvents: 1 });
+
+  assert.deepEqual(triggers, [
+    { slot: 100, accounts: "initial" },
+    { slot: 102, accounts: `pool;tick_array:${ARRAY}` },
+  ]);
+});